@@ -1,11 +1,17 @@
 "use client";
 
-import { useCallback, useId, useState } from "react";
+import { useCallback, useEffect, useId, useState } from "react";
 import { useRouter } from "next/navigation";
 
-import { encode as encodeQuery } from "@/lib/query";
+import { digest, fetchContent } from "@/lib/content";
+import { getPandoc } from "@/lib/instance";
+import type { Source } from "@/lib/query";
+import { encode as encodeQuery, QueryTooLongError } from "@/lib/query";
+import type { Capabilities, ConvertOptions } from "@/lib/pandoc";
+import { getCapabilities, toArgs } from "@/lib/pandoc";
 
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -14,7 +20,7 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
-import { Field, FieldLabel } from "@/components/ui/field";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
 import {
   Card,
   CardHeader,
@@ -24,34 +30,110 @@ import {
 } from "@/components/ui/card";
 
 const argsItems = {
-  "md-html5": ["-fmarkdown", "-thtml5", "-s"],
-  "md-revealjs": [
-    "-fmarkdown",
-    "-trevealjs",
-    "-s",
-    "-Vrevealjs-url=https://unpkg.com/reveal.js@^5",
-    "--slide-level=3",
-  ],
-  "md-slidy": ["-fmarkdown", "-tslidy", "-s", "--slide-level=3"],
-  "md-dzslides": ["-fmarkdown", "-tdzslides", "-s", "--slide-level=3"],
-} satisfies Record<string, string[]>;
+  "md-html5": { from: "markdown", to: "html5", standalone: true },
+  "md-revealjs": {
+    from: "markdown",
+    to: "revealjs",
+    standalone: true,
+    variables: { "revealjs-url": "https://unpkg.com/reveal.js@^5" },
+    slideLevel: 3,
+  },
+  "md-slidy": {
+    from: "markdown",
+    to: "slidy",
+    standalone: true,
+    slideLevel: 3,
+  },
+  "md-dzslides": {
+    from: "markdown",
+    to: "dzslides",
+    standalone: true,
+    slideLevel: 3,
+  },
+} satisfies Record<string, ConvertOptions>;
 
 function isArgsItemsKey(val: string): val is keyof typeof argsItems {
   return val in argsItems;
 }
 
-function renderArgs(key: keyof typeof argsItems | ""): string {
-  if (key === "") {
+function renderArgs(options: ConvertOptions | null): string {
+  if (options === null) {
     return "";
   }
 
-  return ["pandoc", ...argsItems[key]].join(" ");
+  return ["pandoc", ...toArgs(options)].join(" ");
+}
+
+function splitRefs(text: string): string[] {
+  return text.split(/\s+/).filter((v) => v !== "");
+}
+
+function FormatSelect({
+  id,
+  formats,
+  value,
+  onValueChange,
+}: {
+  id: string;
+  formats: string[] | undefined;
+  value: string | undefined;
+  onValueChange: (value: string) => void;
+}): React.ReactNode {
+  return (
+    <Select
+      required
+      disabled={typeof formats === "undefined"}
+      value={value ?? ""}
+      onValueChange={onValueChange}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(formats ?? []).map((format) => (
+          <SelectItem key={format} value={format}>
+            {format}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
 }
 
 export default function Page(): React.ReactNode {
   const router = useRouter();
   const [href, setHref] = useState("");
+  const [pin, setPin] = useState(false);
+  const [hrefError, setHrefError] = useState<Error | null>(null);
+  const [content, setContent] = useState("");
+  const [contentError, setContentError] = useState<Error | null>(null);
+  const [submitError, setSubmitError] = useState<Error | null>(null);
   const [args, setArgs] = useState<keyof typeof argsItems | "">("");
+  const [options, setOptions] = useState<ConvertOptions | null>(null);
+  const [luaFilters, setLuaFilters] = useState("");
+  const [bibliography, setBibliography] = useState("");
+  const [csl, setCsl] = useState("");
+  const [template, setTemplate] = useState("");
+  const [referenceDoc, setReferenceDoc] = useState("");
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [capabilities, setCapabilities] = useState<Capabilities | null>(null);
+
+  useEffect(() => {
+    const abort = new AbortController();
+    // pandoc is only started on a cache miss, and is kept for the viewer.
+    (async (signal) => {
+      const capabilities = await getCapabilities(getPandoc);
+      signal.throwIfAborted();
+      setCapabilities(capabilities);
+    })(abort.signal).catch((err: unknown) => {
+      // The presets still work without the format lists.
+      if (!abort.signal.aborted) {
+        console.error(err);
+      }
+    });
+    return () => abort.abort();
+  }, []);
 
   const handleArgsChanged = useCallback((val: string) => {
     if (!isArgsItemsKey(val)) {
@@ -59,29 +141,140 @@ export default function Page(): React.ReactNode {
     }
 
     setArgs(val);
+    setOptions(argsItems[val]);
   }, []);
 
+  const handleFormatChanged = useCallback(
+    (key: "from" | "to") => (val: string) => {
+      setArgs("");
+      setOptions((prev) => ({ standalone: true, ...prev, [key]: val }));
+    },
+    [],
+  );
+
+  const handleFlagChanged = useCallback(
+    (key: "citeproc" | "embedResources") =>
+      (event: React.ChangeEvent<HTMLInputElement>) => {
+        const checked = event.target.checked || undefined;
+        setArgs("");
+        setOptions((prev) => prev && { ...prev, [key]: checked });
+      },
+    [],
+  );
+
   const handleSubmit = useCallback<React.FormEventHandler<HTMLFormElement>>(
     (event) => {
       event.preventDefault();
 
       (async () => {
-        if (args === "") {
+        if (
+          options === null ||
+          typeof options.from === "undefined" ||
+          typeof options.to === "undefined"
+        ) {
+          return;
+        }
+        if (
+          capabilities !== null &&
+          (!capabilities.inputFormats.includes(options.from) ||
+            !capabilities.outputFormats.includes(options.to))
+        ) {
+          return;
+        }
+
+        if (href === "" && content === "") {
           return;
         }
 
-        const query = await encodeQuery({
-          url: href,
-          args: argsItems[args],
-        });
+        setHrefError(null);
+        setContentError(null);
+        setSubmitError(null);
+        let source: Source;
+        if (content !== "") {
+          source = { content };
+        } else if (pin) {
+          try {
+            const [stream] = await fetchContent(new URL(href));
+            const data = new Uint8Array(
+              await new Response(stream).arrayBuffer(),
+            );
+            source = { url: href, sha256: await digest(data) };
+          } catch (err) {
+            console.error(err);
+            setHrefError(new Error("Could not fetch the content to pin it."));
+            return;
+          }
+        } else {
+          source = { url: href };
+        }
+
+        let query;
+        try {
+          query = await encodeQuery(
+            {
+              sources: [source],
+              args: toArgs(options),
+              luaFilters: splitRefs(luaFilters),
+              bibliography: splitRefs(bibliography),
+              csl: csl !== "" ? csl : undefined,
+              template: template !== "" ? template : undefined,
+              referenceDoc: referenceDoc !== "" ? referenceDoc : undefined,
+            },
+            {
+              encrypt: !encrypt
+                ? undefined
+                : passphrase !== ""
+                  ? { passphrase }
+                  : true,
+            },
+          );
+        } catch (err) {
+          if (err instanceof QueryTooLongError) {
+            setContentError(err);
+            return;
+          }
+          throw err;
+        }
         router.push(`/view/#${query}`);
-      })();
+      })().catch((err: unknown) => {
+        console.error(err);
+        setSubmitError(
+          err instanceof Error ? err : new Error("Could not create the link."),
+        );
+      });
     },
-    [router, href, args],
+    [
+      router,
+      href,
+      pin,
+      content,
+      options,
+      capabilities,
+      luaFilters,
+      bibliography,
+      csl,
+      template,
+      referenceDoc,
+      encrypt,
+      passphrase,
+    ],
   );
 
   const urlId = useId();
+  const pinId = useId();
+  const contentId = useId();
   const argsId = useId();
+  const fromId = useId();
+  const toId = useId();
+  const luaFiltersId = useId();
+  const citeprocId = useId();
+  const embedResourcesId = useId();
+  const bibliographyId = useId();
+  const cslId = useId();
+  const templateId = useId();
+  const referenceDocId = useId();
+  const encryptId = useId();
+  const passphraseId = useId();
   const mainFormId = useId();
 
   return (
@@ -96,19 +289,50 @@ export default function Page(): React.ReactNode {
         <CardContent>
           <form id={mainFormId} onSubmit={handleSubmit}>
             <div className="flex flex-col gap-6">
-              <Field>
+              <Field data-invalid={hrefError !== null || undefined}>
                 <FieldLabel htmlFor={urlId}>URL</FieldLabel>
                 <Input
                   id={urlId}
-                  required
+                  required={content === ""}
+                  disabled={content !== ""}
                   placeholder="https://gist.github.com/:user/:id or something"
                   value={href}
-                  onChange={(event) => setHref(event.target.value)}
+                  onChange={(event) => {
+                    setHref(event.target.value);
+                    setHrefError(null);
+                  }}
+                />
+                <FieldError errors={[hrefError ?? undefined]} />
+              </Field>
+              <Field orientation="horizontal">
+                <input
+                  id={pinId}
+                  type="checkbox"
+                  disabled={content !== ""}
+                  checked={pin}
+                  onChange={(event) => setPin(event.target.checked)}
                 />
+                <FieldLabel htmlFor={pinId}>
+                  Warn when the content changes
+                </FieldLabel>
+              </Field>
+              <Field data-invalid={contentError !== null || undefined}>
+                <FieldLabel htmlFor={contentId}>Or content</FieldLabel>
+                <Textarea
+                  id={contentId}
+                  placeholder="Carried in the link itself, for short notes"
+                  aria-invalid={contentError !== null || undefined}
+                  value={content}
+                  onChange={(event) => {
+                    setContent(event.target.value);
+                    setContentError(null);
+                  }}
+                />
+                <FieldError errors={[contentError ?? undefined]} />
               </Field>
               <Field>
                 <FieldLabel htmlFor={argsId}>Args</FieldLabel>
-                <Select required value={args} onValueChange={handleArgsChanged}>
+                <Select value={args} onValueChange={handleArgsChanged}>
                   <SelectTrigger id={argsId}>
                     <SelectValue />
                   </SelectTrigger>
@@ -120,10 +344,118 @@ export default function Page(): React.ReactNode {
                     ))}
                   </SelectContent>
                 </Select>
-                <code className="bg-muted relative rounded px-[0.3rem] py-[0.2rem] font-mono text-sm font-semibold empty:hidden">
-                  {renderArgs(args)}
-                </code>
               </Field>
+              <div className="grid grid-cols-2 gap-4">
+                <Field>
+                  <FieldLabel htmlFor={fromId}>From</FieldLabel>
+                  <FormatSelect
+                    id={fromId}
+                    formats={capabilities?.inputFormats}
+                    value={options?.from}
+                    onValueChange={handleFormatChanged("from")}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor={toId}>To</FieldLabel>
+                  <FormatSelect
+                    id={toId}
+                    formats={capabilities?.outputFormats}
+                    value={options?.to}
+                    onValueChange={handleFormatChanged("to")}
+                  />
+                </Field>
+              </div>
+              <code className="bg-muted relative rounded px-[0.3rem] py-[0.2rem] font-mono text-sm font-semibold empty:hidden">
+                {renderArgs(options)}
+              </code>
+              <Field>
+                <FieldLabel htmlFor={luaFiltersId}>Lua filters</FieldLabel>
+                <Textarea
+                  id={luaFiltersId}
+                  placeholder="One URL per line"
+                  value={luaFilters}
+                  onChange={(event) => setLuaFilters(event.target.value)}
+                />
+              </Field>
+              <Field orientation="horizontal">
+                <input
+                  id={citeprocId}
+                  type="checkbox"
+                  disabled={options === null}
+                  checked={options?.citeproc ?? false}
+                  onChange={handleFlagChanged("citeproc")}
+                />
+                <FieldLabel htmlFor={citeprocId}>Process citations</FieldLabel>
+              </Field>
+              <Field orientation="horizontal">
+                <input
+                  id={embedResourcesId}
+                  type="checkbox"
+                  disabled={options === null}
+                  checked={options?.embedResources ?? false}
+                  onChange={handleFlagChanged("embedResources")}
+                />
+                <FieldLabel htmlFor={embedResourcesId}>
+                  Embed images and stylesheets
+                </FieldLabel>
+              </Field>
+              <Field>
+                <FieldLabel htmlFor={bibliographyId}>Bibliography</FieldLabel>
+                <Textarea
+                  id={bibliographyId}
+                  placeholder="One URL or gist file name per line"
+                  value={bibliography}
+                  onChange={(event) => setBibliography(event.target.value)}
+                />
+              </Field>
+              <Field>
+                <FieldLabel htmlFor={cslId}>CSL style</FieldLabel>
+                <Input
+                  id={cslId}
+                  placeholder="URL or gist file name"
+                  value={csl}
+                  onChange={(event) => setCsl(event.target.value)}
+                />
+              </Field>
+              <Field>
+                <FieldLabel htmlFor={templateId}>Template</FieldLabel>
+                <Input
+                  id={templateId}
+                  placeholder="URL or gist file name"
+                  value={template}
+                  onChange={(event) => setTemplate(event.target.value)}
+                />
+              </Field>
+              <Field>
+                <FieldLabel htmlFor={referenceDocId}>Reference doc</FieldLabel>
+                <Input
+                  id={referenceDocId}
+                  placeholder="URL or gist file name, for docx, odt and pptx"
+                  value={referenceDoc}
+                  onChange={(event) => setReferenceDoc(event.target.value)}
+                />
+              </Field>
+              <Field orientation="horizontal">
+                <input
+                  id={encryptId}
+                  type="checkbox"
+                  checked={encrypt}
+                  onChange={(event) => setEncrypt(event.target.checked)}
+                />
+                <FieldLabel htmlFor={encryptId}>Encrypt the link</FieldLabel>
+              </Field>
+              <Field>
+                <FieldLabel htmlFor={passphraseId}>Passphrase</FieldLabel>
+                <Input
+                  id={passphraseId}
+                  type="password"
+                  disabled={!encrypt}
+                  placeholder="Optional; otherwise the key is in the link"
+                  value={passphrase}
+                  onChange={(event) => setPassphrase(event.target.value)}
+                />
+              </Field>
+              <FieldError errors={[submitError ?? undefined]} />
             </div>
           </form>
         </CardContent>
@@ -3,134 +3,203 @@
 import {
   useCallback,
   useEffect,
+  useId,
   useRef,
   useState,
   useSyncExternalStore,
 } from "react";
-import { AlertCircleIcon } from "lucide-react";
-import * as z from "zod";
-
-import { decode as decodeQuery } from "@/lib/query";
-import type { Pandoc } from "@/lib/pandoc";
-import { newPandoc } from "@/lib/pandoc";
+import {
+  AlertCircleIcon,
+  AlertTriangleIcon,
+  DownloadIcon,
+  LockIcon,
+} from "lucide-react";
 
+import {
+  ContentChangedError,
+  fetchAttachment,
+  fetchContent,
+  fetchSource,
+} from "@/lib/content";
+import { disposePandoc, getPandoc } from "@/lib/instance";
+import type { Query } from "@/lib/query";
+import {
+  decode as decodeQuery,
+  DecryptionError,
+  PassphraseRequiredError,
+} from "@/lib/query";
+import type {
+  ConvertOptions,
+  Diagnostic,
+  Finding,
+  LuaFilter,
+  Trace,
+  TraceEntry,
+} from "@/lib/pandoc";
+import {
+  binaryExtension,
+  enforcePolicy,
+  OutOfMemoryError,
+  PandocError,
+  parseArgs,
+  PolicyError,
+  toArgs,
+  withResources,
+} from "@/lib/pandoc";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
 import { Spinner } from "@/components/ui/spinner";
-import { Alert, AlertTitle } from "@/components/ui/alert";
-
-const zGistResponse = z.object({
-  files: z.record(
-    z.string(),
-    z.object({
-      type: z.string(),
-      raw_url: z.string(),
-      content: z.string(),
-      encoding: z.union([z.literal("utf-8"), z.literal("base64")]),
-      truncated: z.boolean(),
-    }),
-  ),
-  description: z.string(),
-});
-
-async function fetchContentDefault(
-  href: URL,
-): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
-  const response = await fetch(href);
-  if (!response.ok) {
-    throw new Error(await response.text());
-  }
-  if (response.body === null) {
-    throw new Error();
-  }
-  return [response.body];
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+
+/** Numbered so that files of the same name do not collide. */
+function mountName(ref: string, index: number): string {
+  const basename =
+    ref
+      .split(/[/?#]/)
+      .filter((v) => v !== "")
+      .pop() ?? "";
+  return `${index}-${basename.replace(/[^\w.-]/g, "_")}`;
 }
 
-async function fetchContentGist(
-  href: URL,
-): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
-  if (href.host !== "gist.github.com") {
-    throw new Error();
-  }
-
-  const [user, id, ...rest] = href.pathname.slice(1).split("/");
-  if (
-    typeof user === "undefined" ||
-    typeof id === "undefined" ||
-    rest.length > 0
-  ) {
-    return await fetchContentDefault(href);
-  }
-
-  const response = await fetch(`https://api.github.com/gists/${id}`, {
-    headers: {
-      "Content-Type": "application/vnd.github.base64+json",
-    },
-  });
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`${response.status}: ${body}`);
-  }
-
-  const json = await response.json();
-  const parsed = zGistResponse.parse(json);
-
-  for (const obj of Object.values(parsed.files)) {
-    if (obj.type !== "text/markdown") {
-      continue;
-    }
-
-    if (obj.truncated) {
-      const [stream] = await fetchContentDefault(new URL(obj.raw_url));
-      return [stream, parsed.description];
-    }
+async function fetchLuaFilter(href: URL, index: number): Promise<LuaFilter> {
+  const [stream] = await fetchContent(href, (name) => name.endsWith(".lua"));
+  return {
+    name: mountName(href.pathname, index),
+    source: new Uint8Array(await new Response(stream).arrayBuffer()),
+  };
+}
 
-    if (obj.encoding === "base64") {
-      const content = new Blob([Uint8Array.fromBase64(obj.content)]);
-      return [content.stream(), parsed.description];
+/** Joins sources with a blank line, like pandoc does with input files. */
+async function concat(streams: ReadableStream<Uint8Array>[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  for (const stream of streams) {
+    if (parts.length > 0) {
+      parts.push("\n\n");
     }
-
-    const content = new Blob([obj.content]);
-    return [content.stream(), parsed.description];
+    parts.push(await new Response(stream).blob());
   }
-
-  return await fetchContentDefault(href);
+  return new Blob(parts);
 }
 
-async function fetchContent(
-  href: URL,
-): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
-  if (href.host === "gist.github.com") {
-    return await fetchContentGist(href);
+/** The file name to download, when the writer does not produce HTML. */
+function downloadName(
+  args: string[],
+  title: string | undefined,
+): string | undefined {
+  const ext = binaryExtension(parseArgs(args));
+  if (typeof ext === "undefined") {
+    return undefined;
   }
+  return `${(title ?? "document").replace(/[\\/:*?"<>|]/g, "_")}.${ext}`;
+}
 
-  return await fetchContentDefault(href);
+function describeFindings(findings: Finding[]): string {
+  return findings.map(({ arg, reason }) => `${arg}: ${reason}`).join("\n");
 }
 
-let pandoc: Promise<Pandoc> | undefined;
+type Rendered = {
+  content: Blob;
+  title: string | undefined;
+  /** File name, when the output is offered as a download. */
+  download: string | undefined;
+  diagnostics: Diagnostic[];
+};
+
+type RenderOpts = {
+  signal: AbortSignal;
+  trace: Trace | undefined;
+  /** `false` views pinned sources even when they changed. */
+  verify: boolean;
+  /** Runs arguments the policy needs confirmation for. */
+  confirmed: boolean;
+};
 
 async function render(
-  href: URL,
-  args: string[],
-): Promise<[content: Blob, title: string | undefined]> {
-  const [stdin, title] = await fetchContent(href);
+  query: Query,
+  { signal, trace, verify, confirmed }: RenderOpts,
+): Promise<Rendered> {
+  const [source, ...rest] = query.sources;
+  if (typeof source === "undefined") {
+    throw new Error("No source.");
+  }
+  // Attachments and relative references resolve against the first source,
+  // unless it is inline.
+  const href = "url" in source ? new URL(source.url) : undefined;
+  const attachments: [ref: string, path: string][] = [];
+  const mount = (dir: string, ref: string) => {
+    const path = `/${dir}/${mountName(ref, attachments.length)}`;
+    attachments.push([ref, path]);
+    return path;
+  };
+  const options: ConvertOptions = {
+    bibliography: query.bibliography?.map((ref) => mount("citeproc", ref)),
+    csl: query.csl && mount("citeproc", query.csl),
+    template: query.template && mount("templates", query.template),
+    referenceDoc: query.referenceDoc && mount("templates", query.referenceDoc),
+    metadata: query.metadata,
+  };
+  // Checked before anything is fetched.
+  enforcePolicy(
+    [...query.args, ...toArgs({ ...options, luaFilters: query.luaFilters })],
+    { confirmed },
+  );
 
-  const fn = await (pandoc ??= newPandoc({}));
+  const [[first, sourceTitle], others, filters, files] = await Promise.all([
+    fetchSource(source, { verify }),
+    Promise.all(rest.map((v) => fetchSource(v, { verify }))),
+    Promise.all(
+      (query.luaFilters ?? []).map((v, i) => fetchLuaFilter(new URL(v), i)),
+    ),
+    Promise.all(
+      attachments.map(
+        async ([ref, path]) =>
+          [path, await fetchAttachment(ref, href)] as const,
+      ),
+    ),
+  ]);
+  const title = query.viewer?.title ?? sourceTitle;
+  const stdin =
+    others.length === 0
+      ? first
+      : (await concat([first, ...others.map(([stream]) => stream)])).stream();
+
+  const download = downloadName(query.args, title);
+  const instance = await getPandoc();
+  const fn =
+    typeof href !== "undefined"
+      ? withResources(instance, { base: href })
+      : instance;
   const chunks: Uint8Array<ArrayBuffer>[] = [];
-  await fn({
-    args: [...args, `-T${title ?? "-"}`],
+  const result = await fn({
+    args: [...query.args, ...toArgs({ ...options, titlePrefix: title ?? "-" })],
     stdin,
+    files: Object.fromEntries(files),
+    output: typeof download !== "undefined" ? `/out/${download}` : undefined,
+    luaFilters: filters,
+    log: query.viewer?.diagnostics !== false,
+    signal,
+    trace,
     stdout: new WritableStream<Uint8Array>({
       write: (chunk) => {
         chunks.push(new Uint8Array(chunk));
       },
     }),
-    stderr: new WritableStream<Uint8Array>({
-      write: (chunk) => {
-        console.log(new TextDecoder().decode(chunk));
-      },
-    }),
   });
-  const blob = new Blob(chunks, { type: "text/html" });
-  return [blob, title];
+  const diagnostics = result.diagnostics ?? [];
+
+  if (typeof result.output !== "undefined") {
+    const { data, type } = result.output;
+    return {
+      content: new Blob([data], { type }),
+      title,
+      download,
+      diagnostics,
+    };
+  }
+  const content = new Blob(chunks, { type: "text/html" });
+  return { content, title, download: undefined, diagnostics };
 }
 
 function useHash(): string | null {
@@ -203,15 +272,115 @@ function Iframe(
   );
 }
 
+function Diagnostics({
+  diagnostics,
+}: {
+  diagnostics: Diagnostic[];
+}): React.ReactNode {
+  const shown = diagnostics.filter(
+    ({ verbosity }) => verbosity === "ERROR" || verbosity === "WARNING",
+  );
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="fixed right-2 bottom-2 max-w-lg max-h-[50vh] overflow-auto rounded-md border bg-background p-2 text-sm shadow">
+      <summary className="cursor-pointer font-medium">
+        {shown.length} {shown.length === 1 ? "warning" : "warnings"}
+      </summary>
+      <ul className="mt-2 flex flex-col gap-1">
+        {shown.map(({ verbosity, message, line, column }, i) => (
+          <li key={i}>
+            <span
+              className={
+                verbosity === "ERROR" ? "text-destructive" : "text-amber-600"
+              }
+            >
+              {verbosity}
+            </span>{" "}
+            {typeof line !== "undefined" && (
+              <span className="font-mono text-muted-foreground">
+                {line}:{column ?? 1}{" "}
+              </span>
+            )}
+            {message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function PassphraseForm({
+  incorrect,
+  onSubmit,
+}: {
+  incorrect: boolean;
+  onSubmit: (passphrase: string) => void;
+}): React.ReactNode {
+  const [value, setValue] = useState("");
+  const id = useId();
+
+  return (
+    <form
+      className="m-2 flex max-w-sm flex-col gap-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(value);
+      }}
+    >
+      <Field data-invalid={incorrect || undefined}>
+        <FieldLabel htmlFor={id}>
+          <LockIcon className="size-4" /> Passphrase
+        </FieldLabel>
+        <Input
+          id={id}
+          type="password"
+          required
+          autoFocus
+          aria-invalid={incorrect || undefined}
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+        />
+        {incorrect && <FieldError>The passphrase is incorrect.</FieldError>}
+      </Field>
+      <Button>Open</Button>
+    </form>
+  );
+}
+
 export default function Page(): React.ReactNode {
   const hash = useHash();
-  const [err, setErr] = useState<string | null>(null);
+  // Kept with the link it was entered for.
+  const [passphrase, setPassphrase] = useState<{
+    hash: string | null;
+    value: string;
+  } | null>(null);
+  const [prompt, setPrompt] = useState<"required" | "incorrect" | null>(null);
+  const [changed, setChanged] = useState<ContentChangedError | null>(null);
+  // The link whose changed content is to be viewed anyway.
+  const [unverified, setUnverified] = useState<string | null>(null);
+  const [risky, setRisky] = useState<PolicyError | null>(null);
+  // The link whose risky arguments are to be run anyway.
+  const [confirmed, setConfirmed] = useState<string | null>(null);
+  const [err, setErr] = useState<
+    [title: string, detail?: string | undefined] | null
+  >(null);
   const [contentUrl, setContentUrl] = useState<URL | null>(null);
+  const [download, setDownload] = useState<string | undefined>(undefined);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+
+  useEffect(() => disposePandoc, []);
 
   useEffect(() => {
     const abort = new AbortController();
     (async (signal) => {
       setErr(null);
+      setPrompt(null);
+      setChanged(null);
+      setRisky(null);
+      setDiagnostics([]);
 
       if (hash === null) {
         setContentUrl(null);
@@ -219,8 +388,19 @@ export default function Page(): React.ReactNode {
       }
 
       try {
-        const query = await decodeQuery(hash);
-        const [content, title] = await render(new URL(query.url), query.args);
+        const query = await decodeQuery(hash, {
+          passphrase: passphrase?.hash === hash ? passphrase.value : undefined,
+        });
+        // e.g. /view/?trace#v2:...
+        const trace = new URLSearchParams(window.location.search).has("trace")
+          ? (entry: TraceEntry) => console.debug("[wasi]", entry)
+          : undefined;
+        const { content, title, download, diagnostics } = await render(query, {
+          signal,
+          trace,
+          verify: unverified !== hash,
+          confirmed: confirmed === hash,
+        });
         if (signal.aborted) {
           return;
         }
@@ -230,22 +410,113 @@ export default function Page(): React.ReactNode {
         if (typeof title === "string") {
           window.document.title = title;
         }
+        setDownload(download);
+        setDiagnostics(diagnostics);
         setContentUrl(new URL(contentUrl));
       } catch (err) {
+        if (signal.aborted) {
+          return;
+        }
+
+        if (err instanceof PassphraseRequiredError) {
+          setPrompt("required");
+          return;
+        }
+        if (err instanceof DecryptionError && passphrase?.hash === hash) {
+          setPrompt("incorrect");
+          return;
+        }
+        if (err instanceof ContentChangedError) {
+          setChanged(err);
+          return;
+        }
+        if (err instanceof PolicyError && err.verdict === "confirm") {
+          setRisky(err);
+          return;
+        }
+
         console.error(err);
-        setErr("Error occurred.");
+        if (err instanceof PandocError) {
+          setErr([err.message, err.stderr]);
+          setDiagnostics(err.diagnostics ?? []);
+        } else if (err instanceof PolicyError) {
+          setErr([err.message, describeFindings(err.findings)]);
+        } else if (
+          err instanceof OutOfMemoryError ||
+          err instanceof DecryptionError
+        ) {
+          setErr([err.message]);
+        } else {
+          setErr(["Error occurred."]);
+        }
       }
     })(abort.signal);
     return () => abort.abort();
-  }, [hash]);
+  }, [hash, passphrase, unverified, confirmed]);
+
+  if (prompt !== null) {
+    return (
+      <PassphraseForm
+        incorrect={prompt === "incorrect"}
+        onSubmit={(value) => setPassphrase({ hash, value })}
+      />
+    );
+  }
+
+  if (risky !== null) {
+    return (
+      <Alert>
+        <AlertTriangleIcon />
+        <AlertTitle>{risky.message}</AlertTitle>
+        <AlertDescription>
+          <pre className="whitespace-pre-wrap break-all">
+            {describeFindings(risky.findings)}
+          </pre>
+          <p>Only run them if you trust whoever sent this link.</p>
+          <Button
+            variant="outline"
+            className="mt-2"
+            onClick={() => setConfirmed(hash)}
+          >
+            Run anyway
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (changed !== null) {
+    return (
+      <Alert>
+        <AlertTriangleIcon />
+        <AlertTitle>Content changed since this link was created</AlertTitle>
+        <AlertDescription>
+          <p className="break-all">{changed.url}</p>
+          <Button
+            variant="outline"
+            className="mt-2"
+            onClick={() => setUnverified(hash)}
+          >
+            View anyway
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
 
   if (err !== null) {
     return (
       <>
         <Alert variant="destructive">
           <AlertCircleIcon />
-          <AlertTitle>{err}</AlertTitle>
+          <AlertTitle>{err[0]}</AlertTitle>
+          {typeof err[1] === "string" && (
+            <AlertDescription>
+              <pre className="whitespace-pre-wrap">{err[1]}</pre>
+            </AlertDescription>
+          )}
         </Alert>
+        <Diagnostics diagnostics={diagnostics} />
       </>
     );
   }
@@ -258,9 +529,23 @@ export default function Page(): React.ReactNode {
     );
   }
 
+  if (typeof download !== "undefined") {
+    return (
+      <div className="m-2">
+        <Button asChild>
+          <a href={contentUrl.href} download={download}>
+            <DownloadIcon /> {download}
+          </a>
+        </Button>
+        <Diagnostics diagnostics={diagnostics} />
+      </div>
+    );
+  }
+
   return (
     <>
       <Iframe src={contentUrl.href} className="w-screen h-screen" />
+      <Diagnostics diagnostics={diagnostics} />
     </>
   );
 }
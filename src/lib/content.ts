@@ -0,0 +1,228 @@
+import * as z from "zod";
+
+import type { Source } from "./query";
+
+const zGistResponse = z.object({
+  files: z.record(
+    z.string(),
+    z.object({
+      type: z.string(),
+      raw_url: z.string(),
+      content: z.string(),
+      encoding: z.union([z.literal("utf-8"), z.literal("base64")]),
+      truncated: z.boolean(),
+    }),
+  ),
+  description: z.string(),
+});
+
+async function fetchContentDefault(
+  href: URL,
+): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
+  const response = await fetch(href);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  if (response.body === null) {
+    throw new Error();
+  }
+  return [response.body];
+}
+
+type GistResponse = z.infer<typeof zGistResponse>;
+type GistFile = GistResponse["files"][string];
+
+function isMarkdown(_name: string, file: GistFile): boolean {
+  return file.type === "text/markdown";
+}
+
+// Attachments come from the same gist; the GitHub API is rate limited.
+const gists = new Map<string, Promise<GistResponse>>();
+
+async function fetchGist(id: string): Promise<GistResponse> {
+  const response = await fetch(`https://api.github.com/gists/${id}`, {
+    headers: {
+      "Content-Type": "application/vnd.github.base64+json",
+    },
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`${response.status}: ${body}`);
+  }
+
+  const json = await response.json();
+  return zGistResponse.parse(json);
+}
+
+async function fetchContentGist(
+  href: URL,
+  accept: (name: string, file: GistFile) => boolean,
+): Promise<
+  [ReadableStream<Uint8Array>, title?: string | undefined] | undefined
+> {
+  if (href.host !== "gist.github.com") {
+    throw new Error();
+  }
+
+  const [user, id, ...rest] = href.pathname.slice(1).split("/");
+  if (
+    typeof user === "undefined" ||
+    typeof id === "undefined" ||
+    rest.length > 0
+  ) {
+    return await fetchContentDefault(href);
+  }
+
+  let gist = gists.get(id);
+  if (typeof gist === "undefined") {
+    gist = fetchGist(id);
+    gists.set(id, gist);
+    gist.catch(() => gists.delete(id));
+  }
+  const parsed = await gist;
+
+  for (const [name, obj] of Object.entries(parsed.files)) {
+    if (!accept(name, obj)) {
+      continue;
+    }
+
+    if (obj.truncated) {
+      const [stream] = await fetchContentDefault(new URL(obj.raw_url));
+      return [stream, parsed.description];
+    }
+
+    if (obj.encoding === "base64") {
+      const content = new Blob([Uint8Array.fromBase64(obj.content)]);
+      return [content.stream(), parsed.description];
+    }
+
+    const content = new Blob([obj.content]);
+    return [content.stream(), parsed.description];
+  }
+
+  return undefined;
+}
+
+export async function fetchContent(
+  href: URL,
+  accept = isMarkdown,
+): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
+  if (href.host === "gist.github.com") {
+    const content = await fetchContentGist(href, accept);
+    if (typeof content !== "undefined") {
+      return content;
+    }
+  }
+
+  return await fetchContentDefault(href);
+}
+
+export class ContentChangedError extends Error {
+  #url: string;
+
+  constructor(url: string) {
+    super(`${url}: content changed since this link was created.`);
+    this.name = "ContentChangedError";
+    this.#url = url;
+  }
+
+  get url(): string {
+    return this.#url;
+  }
+}
+
+/** Hex-encoded SHA-256 of `data`, as pinned by `Source.sha256`. */
+export async function digest(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(hash, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export type FetchSourceOpts = {
+  /** `false` skips the `sha256` check, to view changed content anyway. */
+  verify?: boolean | undefined;
+};
+
+/**
+ * Reads inline content as it is, and fetches the rest. Throws
+ * `ContentChangedError` when a pinned source no longer matches its digest.
+ */
+export async function fetchSource(
+  source: Source,
+  { verify = true }: FetchSourceOpts = {},
+): Promise<[ReadableStream<Uint8Array>, title?: string | undefined]> {
+  if ("content" in source) {
+    return [new Blob([source.content]).stream()];
+  }
+
+  const [stream, title] = await fetchContent(new URL(source.url));
+  if (typeof source.sha256 === "undefined" || !verify) {
+    return [stream, title];
+  }
+
+  const data = new Uint8Array(await new Response(stream).arrayBuffer());
+  if ((await digest(data)) !== source.sha256) {
+    throw new ContentChangedError(source.url);
+  }
+  return [new Blob([data]).stream(), title];
+}
+
+/**
+ * Fetches `ref`, either a URL or the name of a file in the source gist.
+ * Without `base`, which inline sources lack, `ref` must be absolute.
+ */
+export async function fetchAttachment(
+  ref: string,
+  base: URL | undefined,
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof base === "undefined") {
+    if (!URL.canParse(ref)) {
+      throw new Error(`${ref} must be an absolute URL for inline content.`);
+    }
+    const [stream] = await fetchContent(new URL(ref));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  let content;
+  if (!URL.canParse(ref) && base.host === "gist.github.com") {
+    content = await fetchContentGist(base, (name) => name === ref);
+    if (typeof content === "undefined") {
+      throw new Error(`${ref} is not found in ${base.href}`);
+    }
+  } else {
+    content = await fetchContent(new URL(ref, base));
+  }
+  return new Uint8Array(await new Response(content[0]).arrayBuffer());
+}
+
+if (import.meta.vitest) {
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("fetchSource", () => {
+    const url = "data:text/markdown,%23%20Hello%0A";
+    // printf '# Hello\n' | sha256sum
+    const pinned =
+      "90f8ec5669cd34183b9b0fdf8b94f5efb4c3672876330f4aa76088c2b4ad17be";
+    const sha256 = "0".repeat(64);
+
+    it("verifies pinned content", async () => {
+      assert.equal(await digest(new TextEncoder().encode("# Hello\n")), pinned);
+      const [stream] = await fetchSource({ url, sha256: pinned });
+      assert.equal(await new Response(stream).text(), "# Hello\n");
+    });
+
+    it("rejects changed content", async () => {
+      try {
+        await fetchSource({ url, sha256 });
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof ContentChangedError)) {
+          throw e;
+        }
+        assert.equal(e.url, url);
+      }
+
+      const [stream] = await fetchSource({ url, sha256 }, { verify: false });
+      assert.equal(await new Response(stream).text(), "# Hello\n");
+    });
+  });
+}
@@ -0,0 +1,28 @@
+import type { Pandoc, WorkerPandoc } from "./pandoc";
+import { canTransferStreams, newPandoc, newWorkerPandoc } from "./pandoc";
+
+let pandoc: Promise<Pandoc | WorkerPandoc> | undefined;
+
+/**
+ * The pandoc the pages share, started on first use: off the main thread
+ * where streams can be transferred to a worker.
+ */
+export function getPandoc(): Promise<Pandoc> {
+  return (pandoc ??= canTransferStreams()
+    ? newWorkerPandoc({})
+    : newPandoc({}));
+}
+
+/** Terminates the worker, if any; the next `getPandoc()` starts again. */
+export function disposePandoc(): void {
+  const disposed = pandoc;
+  pandoc = undefined;
+  disposed?.then(
+    (v) => {
+      if ("terminate" in v) {
+        v.terminate();
+      }
+    },
+    () => {},
+  );
+}
@@ -0,0 +1,352 @@
+/** How many arguments an option takes. */
+export type Arity = "none" | "required" | "optional";
+
+/** One option, or one input, as pandoc would read it. */
+export type ParsedArg =
+  | {
+      /** The long name, e.g. `from` for `-f`. */
+      option: string;
+      value?: string | undefined;
+      /** The argument as given, for messages. */
+      arg: string;
+    }
+  | { input: string };
+
+// https://pandoc.org/MANUAL.html#options
+export const arities: Record<string, Arity> = {
+  from: "required",
+  read: "required",
+  to: "required",
+  write: "required",
+  output: "required",
+  "data-dir": "required",
+  defaults: "required",
+  verbose: "none",
+  quiet: "none",
+  "fail-if-warnings": "none",
+  log: "required",
+  "list-input-formats": "none",
+  "list-output-formats": "none",
+  "list-extensions": "optional",
+  "list-highlight-languages": "none",
+  "list-highlight-styles": "none",
+  version: "none",
+  help: "none",
+  "shift-heading-level-by": "required",
+  "indented-code-classes": "required",
+  "default-image-extension": "required",
+  "file-scope": "none",
+  filter: "required",
+  "lua-filter": "required",
+  metadata: "required",
+  "metadata-file": "required",
+  "preserve-tabs": "none",
+  "tab-stop": "required",
+  "track-changes": "required",
+  "extract-media": "required",
+  abbreviations: "required",
+  trace: "none",
+  standalone: "none",
+  template: "required",
+  variable: "required",
+  sandbox: "none",
+  "print-default-template": "required",
+  "print-default-data-file": "required",
+  eol: "required",
+  dpi: "required",
+  wrap: "required",
+  columns: "required",
+  toc: "none",
+  "table-of-contents": "none",
+  "toc-depth": "required",
+  lof: "none",
+  lot: "none",
+  "strip-comments": "none",
+  "no-highlight": "none",
+  "highlight-style": "required",
+  "print-highlight-style": "required",
+  "syntax-definition": "required",
+  "include-in-header": "required",
+  "include-before-body": "required",
+  "include-after-body": "required",
+  "resource-path": "required",
+  "request-header": "required",
+  "no-check-certificate": "none",
+  "self-contained": "none",
+  "embed-resources": "none",
+  "link-images": "none",
+  "html-q-tags": "none",
+  ascii: "none",
+  "reference-links": "none",
+  "reference-location": "required",
+  "figure-caption-position": "required",
+  "table-caption-position": "required",
+  "markdown-headings": "required",
+  "list-tables": "none",
+  "top-level-division": "required",
+  "number-sections": "none",
+  "number-offset": "required",
+  listings: "none",
+  incremental: "none",
+  "slide-level": "required",
+  "section-divs": "none",
+  "email-obfuscation": "required",
+  "id-prefix": "required",
+  "title-prefix": "required",
+  css: "required",
+  "reference-doc": "required",
+  "epub-subdirectory": "required",
+  "epub-cover-image": "required",
+  "epub-title-page": "required",
+  "epub-metadata": "required",
+  "epub-embed-font": "required",
+  "split-level": "required",
+  "chunk-template": "required",
+  "pdf-engine": "required",
+  "pdf-engine-opt": "required",
+  citeproc: "none",
+  bibliography: "required",
+  csl: "required",
+  "citation-abbreviations": "required",
+  natbib: "none",
+  biblatex: "none",
+  mathml: "none",
+  webtex: "optional",
+  mathjax: "optional",
+  katex: "optional",
+  gladtex: "none",
+  "ipynb-output": "required",
+};
+
+export const shortOptions: Record<string, string> = {
+  f: "from",
+  r: "read",
+  t: "to",
+  w: "write",
+  o: "output",
+  d: "defaults",
+  F: "filter",
+  L: "lua-filter",
+  M: "metadata",
+  p: "preserve-tabs",
+  s: "standalone",
+  V: "variable",
+  D: "print-default-template",
+  H: "include-in-header",
+  B: "include-before-body",
+  A: "include-after-body",
+  N: "number-sections",
+  i: "incremental",
+  T: "title-prefix",
+  c: "css",
+  C: "citeproc",
+  v: "version",
+  h: "help",
+};
+
+/**
+ * The long options `name` may stand for: itself, or every option it is a
+ * prefix of, as pandoc's GetOpt accepts unambiguous prefixes.
+ */
+export function expandOption(name: string): string[] {
+  if (Object.hasOwn(arities, name)) {
+    return [name];
+  }
+  return Object.keys(arities).filter((option) => option.startsWith(name));
+}
+
+/**
+ * Splits `args` the way pandoc does: `--name=value`, `--name value`,
+ * `-xvalue`, `-x value`, clustered flags such as `-sN`, and `--` before
+ * inputs. Unambiguous prefixes of long options are expanded; unknown and
+ * ambiguous options are kept as written and taken to have no argument.
+ *
+ * Throws when an option misses its argument.
+ */
+export function parseArgs(args: string[]): ParsedArg[] {
+  const parsed: ParsedArg[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+
+    if (arg === "--") {
+      parsed.push(...args.slice(i + 1).map((input) => ({ input })));
+      break;
+    }
+
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      const name = eq < 0 ? arg.slice(2) : arg.slice(2, eq);
+      const expanded = expandOption(name);
+      const option = expanded.length === 1 ? (expanded[0] ?? name) : name;
+      let value = eq < 0 ? undefined : arg.slice(eq + 1);
+      if (typeof value === "undefined" && arities[option] === "required") {
+        value = args[++i];
+        if (typeof value === "undefined") {
+          throw new Error(`Missing argument: ${arg}`);
+        }
+      }
+      parsed.push({ option, value, arg });
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        const c = arg.charAt(j);
+        const option = shortOptions[c] ?? c;
+        if (arities[option] !== "required") {
+          parsed.push({ option, arg: `-${c}` });
+          continue;
+        }
+
+        let value: string | undefined = arg.slice(j + 1);
+        if (value === "") {
+          value = args[++i];
+          if (typeof value === "undefined") {
+            throw new Error(`Missing argument: -${c}`);
+          }
+        }
+        parsed.push({ option, value, arg: `-${c}${value}` });
+        break;
+      }
+      continue;
+    }
+
+    parsed.push({ input: arg });
+  }
+
+  return parsed;
+}
+
+/**
+ * Writes `parsed` back as arguments for pandoc: options in the long form,
+ * inputs after `--`.
+ */
+export function formatArgs(parsed: ParsedArg[]): string[] {
+  const options: string[] = [];
+  const inputs: string[] = [];
+  for (const v of parsed) {
+    if ("input" in v) {
+      inputs.push(v.input);
+    } else if (v.option.length === 1 && !Object.hasOwn(arities, v.option)) {
+      // An unknown short option, as written.
+      options.push(`-${v.option}`);
+    } else {
+      options.push(
+        typeof v.value !== "undefined"
+          ? `--${v.option}=${v.value}`
+          : `--${v.option}`,
+      );
+    }
+  }
+  return inputs.length > 0 ? [...options, "--", ...inputs] : options;
+}
+
+/**
+ * Reads the value of a flag, as in `--toc` or `--toc=false`; throws on
+ * anything but `true` and `false`.
+ */
+export function flagValue(value: string | undefined, arg: string): boolean {
+  switch (value) {
+    case undefined:
+    case "true":
+      return true;
+    case "false":
+      return false;
+    default:
+      throw new Error(`Unsupported option: ${arg}`);
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("parseArgs", () => {
+    it("spellings", () => {
+      assert.deepEqual(
+        parseArgs([
+          "-fmarkdown",
+          "-t",
+          "html5",
+          "--standalone",
+          "--toc-depth=2",
+          "--slide-level",
+          "3",
+          "-sN",
+          "-sVlang=en",
+          "--mathjax",
+          "--katex=https://cdn.example.com/katex/",
+          "--unknown",
+          "in.md",
+          "--",
+          "-notanoption.md",
+        ]),
+        [
+          { option: "from", value: "markdown", arg: "-fmarkdown" },
+          { option: "to", value: "html5", arg: "-thtml5" },
+          { option: "standalone", value: undefined, arg: "--standalone" },
+          { option: "toc-depth", value: "2", arg: "--toc-depth=2" },
+          { option: "slide-level", value: "3", arg: "--slide-level" },
+          { option: "standalone", arg: "-s" },
+          { option: "number-sections", arg: "-N" },
+          { option: "standalone", arg: "-s" },
+          { option: "variable", value: "lang=en", arg: "-Vlang=en" },
+          { option: "mathjax", value: undefined, arg: "--mathjax" },
+          {
+            option: "katex",
+            value: "https://cdn.example.com/katex/",
+            arg: "--katex=https://cdn.example.com/katex/",
+          },
+          { option: "unknown", value: undefined, arg: "--unknown" },
+          { input: "in.md" },
+          { input: "-notanoption.md" },
+        ],
+      );
+    });
+
+    it("missing arguments", () => {
+      assert.throws(() => parseArgs(["--template"]), /Missing argument/);
+      assert.throws(() => parseArgs(["-sH"]), /Missing argument: -H/);
+    });
+
+    it("expands prefixes", () => {
+      assert.deepEqual(parseArgs(["--filt=x.lua", "--outp", "/x", "--toc"]), [
+        { option: "filter", value: "x.lua", arg: "--filt=x.lua" },
+        { option: "output", value: "/x", arg: "--outp" },
+        { option: "toc", value: undefined, arg: "--toc" },
+      ]);
+      // Also a prefix of default-image-extension.
+      assert.deepEqual(parseArgs(["--defaul=d.yaml"]), [
+        { option: "defaul", value: "d.yaml", arg: "--defaul=d.yaml" },
+      ]);
+      assert.deepEqual(expandOption("defaul"), [
+        "defaults",
+        "default-image-extension",
+      ]);
+    });
+  });
+
+  it("formatArgs", () => {
+    const args = ["-sfmarkdown", "-Vlang=en", "--mathjax", "-x", "in.md"];
+    assert.deepEqual(formatArgs(parseArgs(args)), [
+      "--standalone",
+      "--from=markdown",
+      "--variable=lang=en",
+      "--mathjax",
+      "-x",
+      "--",
+      "in.md",
+    ]);
+    assert.deepEqual(
+      parseArgs(formatArgs(parseArgs(["-fgfm", "--", "-a.md"]))),
+      [{ option: "from", value: "gfm", arg: "--from=gfm" }, { input: "-a.md" }],
+    );
+  });
+
+  it("flagValue", () => {
+    assert.equal(flagValue(undefined, "--toc"), true);
+    assert.equal(flagValue("true", "--toc=true"), true);
+    assert.equal(flagValue("false", "--toc=false"), false);
+    assert.throws(() => flagValue("no", "--toc=no"), /Unsupported/);
+  });
+}
@@ -0,0 +1,506 @@
+import * as z from "zod";
+
+import type { ConvertOptions } from "./convert";
+import { toArgs } from "./convert";
+import type { Pandoc, PandocOpts, PandocResult } from "./index";
+
+// https://hackage.haskell.org/package/pandoc-types-1.23.1/docs/Text-Pandoc-Definition.html
+
+/** The pandoc-types version of the bundled pandoc. */
+export const API_VERSION = [1, 23, 1] as const;
+
+export type Attr = [
+  id: string,
+  classes: string[],
+  attributes: [string, string][],
+];
+export type Target = [url: string, title: string];
+export type Format = string;
+
+export type QuoteType = { t: "SingleQuote" } | { t: "DoubleQuote" };
+export type MathType = { t: "DisplayMath" } | { t: "InlineMath" };
+export type CitationMode =
+  | { t: "AuthorInText" }
+  | { t: "SuppressAuthor" }
+  | { t: "NormalCitation" };
+
+export type Citation = {
+  citationId: string;
+  citationPrefix: Inline[];
+  citationSuffix: Inline[];
+  citationMode: CitationMode;
+  citationNoteNum: number;
+  citationHash: number;
+};
+
+export type Inline =
+  | { t: "Str"; c: string }
+  | { t: "Emph"; c: Inline[] }
+  | { t: "Underline"; c: Inline[] }
+  | { t: "Strong"; c: Inline[] }
+  | { t: "Strikeout"; c: Inline[] }
+  | { t: "Superscript"; c: Inline[] }
+  | { t: "Subscript"; c: Inline[] }
+  | { t: "SmallCaps"; c: Inline[] }
+  | { t: "Quoted"; c: [QuoteType, Inline[]] }
+  | { t: "Cite"; c: [Citation[], Inline[]] }
+  | { t: "Code"; c: [Attr, string] }
+  | { t: "Space" }
+  | { t: "SoftBreak" }
+  | { t: "LineBreak" }
+  | { t: "Math"; c: [MathType, string] }
+  | { t: "RawInline"; c: [Format, string] }
+  | { t: "Link"; c: [Attr, Inline[], Target] }
+  | { t: "Image"; c: [Attr, Inline[], Target] }
+  | { t: "Note"; c: Block[] }
+  | { t: "Span"; c: [Attr, Inline[]] };
+
+export type ListNumberStyle = {
+  t:
+    | "DefaultStyle"
+    | "Example"
+    | "Decimal"
+    | "LowerRoman"
+    | "UpperRoman"
+    | "LowerAlpha"
+    | "UpperAlpha";
+};
+export type ListNumberDelim = {
+  t: "DefaultDelim" | "Period" | "OneParen" | "TwoParens";
+};
+export type ListAttributes = [
+  start: number,
+  style: ListNumberStyle,
+  delim: ListNumberDelim,
+];
+
+export type Alignment = {
+  t: "AlignLeft" | "AlignRight" | "AlignCenter" | "AlignDefault";
+};
+export type ColWidth = { t: "ColWidth"; c: number } | { t: "ColWidthDefault" };
+export type ColSpec = [Alignment, ColWidth];
+export type Caption = [short: Inline[] | null, body: Block[]];
+export type Cell = [
+  Attr,
+  Alignment,
+  rowSpan: number,
+  colSpan: number,
+  body: Block[],
+];
+export type Row = [Attr, Cell[]];
+export type TableHead = [Attr, Row[]];
+export type TableBody = [
+  Attr,
+  rowHeadColumns: number,
+  head: Row[],
+  body: Row[],
+];
+export type TableFoot = [Attr, Row[]];
+
+export type Block =
+  | { t: "Plain"; c: Inline[] }
+  | { t: "Para"; c: Inline[] }
+  | { t: "LineBlock"; c: Inline[][] }
+  | { t: "CodeBlock"; c: [Attr, string] }
+  | { t: "RawBlock"; c: [Format, string] }
+  | { t: "BlockQuote"; c: Block[] }
+  | { t: "OrderedList"; c: [ListAttributes, Block[][]] }
+  | { t: "BulletList"; c: Block[][] }
+  | { t: "DefinitionList"; c: [Inline[], Block[][]][] }
+  | { t: "Header"; c: [level: number, Attr, Inline[]] }
+  | { t: "HorizontalRule" }
+  | {
+      t: "Table";
+      c: [Attr, Caption, ColSpec[], TableHead, TableBody[], TableFoot];
+    }
+  | { t: "Figure"; c: [Attr, Caption, Block[]] }
+  | { t: "Div"; c: [Attr, Block[]] };
+
+export type MetaValue =
+  | { t: "MetaMap"; c: Record<string, MetaValue> }
+  | { t: "MetaList"; c: MetaValue[] }
+  | { t: "MetaBool"; c: boolean }
+  | { t: "MetaString"; c: string }
+  | { t: "MetaInlines"; c: Inline[] }
+  | { t: "MetaBlocks"; c: Block[] };
+
+export type Meta = Record<string, MetaValue>;
+
+export type Document = {
+  "pandoc-api-version": number[];
+  meta: Meta;
+  blocks: Block[];
+};
+
+const zTag = <T extends string>(t: T) => z.strictObject({ t: z.literal(t) });
+const zTags = <T extends string>(...ts: [T, ...T[]]) =>
+  z.strictObject({ t: z.enum(ts) });
+
+export const zAttr: z.ZodType<Attr> = z.tuple([
+  z.string(),
+  z.array(z.string()),
+  z.array(z.tuple([z.string(), z.string()])),
+]);
+const zTarget: z.ZodType<Target> = z.tuple([z.string(), z.string()]);
+const zInt = z.int();
+
+const zCitation: z.ZodType<Citation> = z.lazy(() =>
+  z.strictObject({
+    citationId: z.string(),
+    citationPrefix: z.array(zInline),
+    citationSuffix: z.array(zInline),
+    citationMode: zTags("AuthorInText", "SuppressAuthor", "NormalCitation"),
+    citationNoteNum: zInt,
+    citationHash: zInt,
+  }),
+);
+
+export const zInline: z.ZodType<Inline> = z.lazy(() => {
+  const zInlines = z.array(zInline);
+  return z.discriminatedUnion("t", [
+    z.strictObject({ t: z.literal("Str"), c: z.string() }),
+    z.strictObject({ t: z.literal("Emph"), c: zInlines }),
+    z.strictObject({ t: z.literal("Underline"), c: zInlines }),
+    z.strictObject({ t: z.literal("Strong"), c: zInlines }),
+    z.strictObject({ t: z.literal("Strikeout"), c: zInlines }),
+    z.strictObject({ t: z.literal("Superscript"), c: zInlines }),
+    z.strictObject({ t: z.literal("Subscript"), c: zInlines }),
+    z.strictObject({ t: z.literal("SmallCaps"), c: zInlines }),
+    z.strictObject({
+      t: z.literal("Quoted"),
+      c: z.tuple([zTags("SingleQuote", "DoubleQuote"), zInlines]),
+    }),
+    z.strictObject({
+      t: z.literal("Cite"),
+      c: z.tuple([z.array(zCitation), zInlines]),
+    }),
+    z.strictObject({ t: z.literal("Code"), c: z.tuple([zAttr, z.string()]) }),
+    zTag("Space"),
+    zTag("SoftBreak"),
+    zTag("LineBreak"),
+    z.strictObject({
+      t: z.literal("Math"),
+      c: z.tuple([zTags("DisplayMath", "InlineMath"), z.string()]),
+    }),
+    z.strictObject({
+      t: z.literal("RawInline"),
+      c: z.tuple([z.string(), z.string()]),
+    }),
+    z.strictObject({
+      t: z.literal("Link"),
+      c: z.tuple([zAttr, zInlines, zTarget]),
+    }),
+    z.strictObject({
+      t: z.literal("Image"),
+      c: z.tuple([zAttr, zInlines, zTarget]),
+    }),
+    z.strictObject({ t: z.literal("Note"), c: z.array(zBlock) }),
+    z.strictObject({ t: z.literal("Span"), c: z.tuple([zAttr, zInlines]) }),
+  ]);
+});
+
+const zAlignment = zTags(
+  "AlignLeft",
+  "AlignRight",
+  "AlignCenter",
+  "AlignDefault",
+);
+
+export const zBlock: z.ZodType<Block> = z.lazy(() => {
+  const zInlines = z.array(zInline);
+  const zBlocks = z.array(zBlock);
+  const zCaption = z.tuple([zInlines.nullable(), zBlocks]);
+  const zRow = z.tuple([
+    zAttr,
+    z.array(z.tuple([zAttr, zAlignment, zInt, zInt, zBlocks])),
+  ]);
+  return z.discriminatedUnion("t", [
+    z.strictObject({ t: z.literal("Plain"), c: zInlines }),
+    z.strictObject({ t: z.literal("Para"), c: zInlines }),
+    z.strictObject({ t: z.literal("LineBlock"), c: z.array(zInlines) }),
+    z.strictObject({
+      t: z.literal("CodeBlock"),
+      c: z.tuple([zAttr, z.string()]),
+    }),
+    z.strictObject({
+      t: z.literal("RawBlock"),
+      c: z.tuple([z.string(), z.string()]),
+    }),
+    z.strictObject({ t: z.literal("BlockQuote"), c: zBlocks }),
+    z.strictObject({
+      t: z.literal("OrderedList"),
+      c: z.tuple([
+        z.tuple([
+          zInt,
+          zTags(
+            "DefaultStyle",
+            "Example",
+            "Decimal",
+            "LowerRoman",
+            "UpperRoman",
+            "LowerAlpha",
+            "UpperAlpha",
+          ),
+          zTags("DefaultDelim", "Period", "OneParen", "TwoParens"),
+        ]),
+        z.array(zBlocks),
+      ]),
+    }),
+    z.strictObject({ t: z.literal("BulletList"), c: z.array(zBlocks) }),
+    z.strictObject({
+      t: z.literal("DefinitionList"),
+      c: z.array(z.tuple([zInlines, z.array(zBlocks)])),
+    }),
+    z.strictObject({
+      t: z.literal("Header"),
+      c: z.tuple([zInt, zAttr, zInlines]),
+    }),
+    zTag("HorizontalRule"),
+    z.strictObject({
+      t: z.literal("Table"),
+      c: z.tuple([
+        zAttr,
+        zCaption,
+        z.array(
+          z.tuple([
+            zAlignment,
+            z.union([
+              z.strictObject({ t: z.literal("ColWidth"), c: z.number() }),
+              zTag("ColWidthDefault"),
+            ]),
+          ]),
+        ),
+        z.tuple([zAttr, z.array(zRow)]),
+        z.array(z.tuple([zAttr, zInt, z.array(zRow), z.array(zRow)])),
+        z.tuple([zAttr, z.array(zRow)]),
+      ]),
+    }),
+    z.strictObject({
+      t: z.literal("Figure"),
+      c: z.tuple([zAttr, zCaption, zBlocks]),
+    }),
+    z.strictObject({ t: z.literal("Div"), c: z.tuple([zAttr, zBlocks]) }),
+  ]);
+});
+
+export const zMetaValue: z.ZodType<MetaValue> = z.lazy(() =>
+  z.discriminatedUnion("t", [
+    z.strictObject({
+      t: z.literal("MetaMap"),
+      c: z.record(z.string(), zMetaValue),
+    }),
+    z.strictObject({ t: z.literal("MetaList"), c: z.array(zMetaValue) }),
+    z.strictObject({ t: z.literal("MetaBool"), c: z.boolean() }),
+    z.strictObject({ t: z.literal("MetaString"), c: z.string() }),
+    z.strictObject({ t: z.literal("MetaInlines"), c: z.array(zInline) }),
+    z.strictObject({ t: z.literal("MetaBlocks"), c: z.array(zBlock) }),
+  ]),
+);
+
+export const zMeta: z.ZodType<Meta> = z.record(z.string(), zMetaValue);
+
+/** Accepts any version that pandoc itself would read: same major.minor. */
+export const zApiVersion = z
+  .array(zInt.nonnegative())
+  .refine(
+    ([major, minor]) => major === API_VERSION[0] && minor === API_VERSION[1],
+    { message: `Expected pandoc-api-version ${API_VERSION.join(".")}` },
+  );
+
+export const zDocument: z.ZodType<Document> = z.strictObject({
+  "pandoc-api-version": zApiVersion,
+  meta: zMeta,
+  blocks: z.array(zBlock),
+});
+
+/** Convenience for building documents from scratch. */
+export function document(blocks: Block[], meta: Meta = {}): Document {
+  return { "pandoc-api-version": [...API_VERSION], meta, blocks };
+}
+
+export type AstOpts = Omit<PandocOpts, "args" | "stdin" | "stdout"> & {
+  /** Further options; `from` and `to` are overridden. */
+  options?: ConvertOptions | undefined;
+};
+
+/** Parses `input` with the `from` reader. */
+export async function toAst(
+  pandoc: Pandoc,
+  input: string | Blob,
+  from: string,
+  { options, ...opts }: AstOpts = {},
+): Promise<Document> {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  await pandoc({
+    ...opts,
+    args: toArgs({ ...options, from, to: "json" }),
+    stdin: new Blob([input]).stream(),
+    stdout: new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        chunks.push(new Uint8Array(chunk));
+      },
+    }),
+  });
+
+  const json: unknown = JSON.parse(await new Blob(chunks).text());
+  return zDocument.parse(json);
+}
+
+export type FromAstResult = PandocResult & {
+  /** Standard output; empty when `opts.output` is set. */
+  text: string;
+};
+
+/**
+ * Renders `ast` with the `to` writer. Binary writers need `opts.output`;
+ * the written file is returned as `output`.
+ */
+export async function fromAst(
+  pandoc: Pandoc,
+  ast: Document,
+  to: string,
+  { options, ...opts }: AstOpts = {},
+): Promise<FromAstResult> {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const result = await pandoc({
+    ...opts,
+    args: toArgs({ ...options, from: "json", to }),
+    stdin: new Blob([JSON.stringify(zDocument.parse(ast))]).stream(),
+    stdout: new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        chunks.push(new Uint8Array(chunk));
+      },
+    }),
+  });
+  return { ...result, text: await new Blob(chunks).text() };
+}
+
+if (import.meta.vitest) {
+  const { testPandoc } = await import("../../test/pandoc");
+
+  const { describe, it, assert } = import.meta.vitest;
+
+  const pandoc = await testPandoc();
+
+  describe("zDocument", () => {
+    it("accepts pandoc output", () => {
+      const json = {
+        "pandoc-api-version": [1, 23, 1],
+        meta: {
+          draft: { t: "MetaBool", c: true },
+          tags: {
+            t: "MetaList",
+            c: [{ t: "MetaInlines", c: [{ t: "Str", c: "a" }] }],
+          },
+        },
+        blocks: [
+          {
+            t: "Header",
+            c: [1, ["h", ["c"], [["k", "v"]]], [{ t: "Str", c: "Head" }]],
+          },
+          {
+            t: "Para",
+            c: [
+              { t: "Emph", c: [{ t: "Str", c: "b" }] },
+              { t: "Space" },
+              {
+                t: "Link",
+                c: [["", [], []], [{ t: "Str", c: "l" }], ["http://x", "t"]],
+              },
+              { t: "Math", c: [{ t: "InlineMath" }, "x"] },
+              { t: "Note", c: [{ t: "Para", c: [{ t: "Str", c: "n" }] }] },
+              {
+                t: "Cite",
+                c: [
+                  [
+                    {
+                      citationId: "cite",
+                      citationPrefix: [],
+                      citationSuffix: [],
+                      citationMode: { t: "AuthorInText" },
+                      citationNoteNum: 2,
+                      citationHash: 0,
+                    },
+                  ],
+                  [{ t: "Str", c: "@cite" }],
+                ],
+              },
+            ],
+          },
+          {
+            t: "Table",
+            c: [
+              ["", [], []],
+              [null, [{ t: "Plain", c: [{ t: "Str", c: "cap" }] }]],
+              [[{ t: "AlignRight" }, { t: "ColWidthDefault" }]],
+              [
+                ["", [], []],
+                [
+                  [
+                    ["", [], []],
+                    [[["", [], []], { t: "AlignDefault" }, 1, 1, []]],
+                  ],
+                ],
+              ],
+              [[["", [], []], 0, [], []]],
+              [["", [], []], []],
+            ],
+          },
+          {
+            t: "OrderedList",
+            c: [[1, { t: "Decimal" }, { t: "Period" }], [[]]],
+          },
+          { t: "HorizontalRule" },
+        ],
+      };
+      assert.deepEqual(zDocument.parse(json), json as Document);
+    });
+
+    it("rejects malformed documents", () => {
+      assert.throws(() => zDocument.parse(document([{ t: "Para" }] as never)));
+      assert.throws(() =>
+        zDocument.parse({ ...document([]), "pandoc-api-version": [1, 22] }),
+      );
+    });
+  });
+
+  describe("toAst | fromAst", () => {
+    it("round-trips", async () => {
+      const ast = await toAst(
+        pandoc,
+        "---\ntitle: T\n---\n# Hello\n\n[link](https://example.com)\n",
+        "markdown",
+      );
+      assert.deepEqual(ast.meta["title"], {
+        t: "MetaInlines",
+        c: [{ t: "Str", c: "T" }],
+      });
+      assert.equal(ast.blocks[0]?.t, "Header");
+
+      const { text } = await fromAst(pandoc, ast, "html5");
+      assert.equal(
+        text,
+        '<h1 id="hello">Hello</h1>\n<p><a href="https://example.com">link</a></p>\n',
+      );
+    });
+
+    it("builds documents", async () => {
+      const ast = document([{ t: "Para", c: [{ t: "Str", c: "Hi" }] }]);
+      const { text } = await fromAst(pandoc, ast, "markdown");
+      assert.equal(text, "Hi\n");
+    });
+
+    it("writes binary output", async () => {
+      const ast = document([{ t: "Para", c: [{ t: "Str", c: "Hi" }] }]);
+      const { text, output } = await fromAst(pandoc, ast, "docx", {
+        output: "out.docx",
+      });
+      assert.equal(text, "");
+      assert.equal(output?.path, "out.docx");
+      assert.deepEqual(
+        output?.data.slice(0, 2),
+        new TextEncoder().encode("PK"),
+      );
+    });
+  });
+}
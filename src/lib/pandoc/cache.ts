@@ -0,0 +1,225 @@
+import { version as wasmVersion } from "wasm-pandoc/package.json";
+
+const CACHE_PREFIX = "mypandoc-wasm-";
+const CACHE_KEY = "pandoc.wasm";
+const DIGEST_HEADER = "x-mypandoc-sha256";
+
+export type CachedFetchWasmOpts = {
+  /** Cache entries of other versions are evicted. */
+  version?: string | undefined;
+  storage?: CacheStorage | undefined;
+};
+
+/** The cached pandoc.wasm did not match its digest; it has been evicted. */
+export class CorruptedCacheError extends Error {
+  constructor() {
+    super("pandoc.wasm in the cache is corrupted.");
+    this.name = "CorruptedCacheError";
+  }
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (v) =>
+    v.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function wasmResponse(data: ArrayBuffer, digest: string): Response {
+  return new Response(data, {
+    headers: {
+      "content-type": "application/wasm",
+      [DIGEST_HEADER]: digest,
+    },
+  });
+}
+
+/**
+ * Opens the cache `${prefix}${version}`, evicting those of other versions.
+ * Rejects where the Cache API is denied, e.g. with a `SecurityError` in
+ * opaque origins.
+ */
+export async function openVersionedCache(
+  storage: CacheStorage,
+  prefix: string,
+  version: string,
+): Promise<Cache> {
+  const name = `${prefix}${version}`;
+  for (const key of await storage.keys()) {
+    if (key.startsWith(prefix) && key !== name) {
+      await storage.delete(key);
+    }
+  }
+  return await storage.open(name);
+}
+
+/**
+ * Passes `body` through as it is read, and hands all of it to `onEnd`
+ * before the stream closes; the stream errors if `onEnd` rejects.
+ */
+function tap(
+  body: ReadableStream<Uint8Array>,
+  onEnd: (data: ArrayBuffer) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        chunks.push(new Uint8Array(chunk));
+        controller.enqueue(chunk);
+      },
+      flush: async () => {
+        await onEnd(await new Blob(chunks).arrayBuffer());
+      },
+    }),
+  );
+}
+
+/**
+ * Serves pandoc.wasm from the Cache API, keyed by the wasm-pandoc version,
+ * and falls back to `fetchWasm` on a miss or where the Cache API fails.
+ *
+ * Bodies are streamed so that `WebAssembly.compileStreaming()` keeps
+ * compiling as they arrive. A corrupted entry is evicted and makes the body
+ * error at its end with `CorruptedCacheError`; calling again fetches from
+ * the network. Failing to store an entry, e.g. for `QuotaExceededError`, is
+ * ignored.
+ */
+export async function cachedFetchWasm(
+  fetchWasm: () => Promise<Response>,
+  {
+    version = wasmVersion,
+    storage = globalThis.caches,
+  }: CachedFetchWasmOpts = {},
+): Promise<Response> {
+  if (typeof storage === "undefined") {
+    // e.g. insecure contexts
+    return await fetchWasm();
+  }
+
+  let cache: Cache;
+  let cached: Response | undefined;
+  try {
+    cache = await openVersionedCache(storage, CACHE_PREFIX, version);
+    cached = await cache.match(CACHE_KEY);
+  } catch {
+    return await fetchWasm();
+  }
+
+  if (typeof cached !== "undefined" && cached.body !== null) {
+    const expected = cached.headers.get(DIGEST_HEADER);
+    const body = tap(cached.body, async (data) => {
+      if ((await sha256(data)) !== expected) {
+        await cache.delete(CACHE_KEY).catch(() => false);
+        throw new CorruptedCacheError();
+      }
+    });
+    return new Response(body, { headers: cached.headers });
+  }
+
+  const response = await fetchWasm();
+  if (!response.ok || response.body === null) {
+    return response;
+  }
+  const body = tap(response.body, async (data) => {
+    try {
+      await cache.put(CACHE_KEY, wasmResponse(data, await sha256(data)));
+    } catch {
+      // Served uncached.
+    }
+  });
+  return new Response(body, {
+    headers: { "content-type": "application/wasm" },
+  });
+}
+
+if (import.meta.vitest) {
+  const { MemoryCacheStorage } = await import("../../test/cache");
+
+  const { describe, it, assert, beforeEach } = import.meta.vitest;
+
+  describe("cachedFetchWasm", () => {
+    let storage: InstanceType<typeof MemoryCacheStorage>;
+    let fetches: number;
+    const fetchWasm = async () => {
+      fetches++;
+      return new Response(new Uint8Array([0, 97, 115, 109]));
+    };
+
+    beforeEach(() => {
+      storage = new MemoryCacheStorage();
+      fetches = 0;
+    });
+
+    const opts = (version: string) => ({
+      version,
+      storage: storage as unknown as CacheStorage,
+    });
+
+    it("fetches once", async () => {
+      // Stored once the body has been read, as compiling does.
+      await (await cachedFetchWasm(fetchWasm, opts("1"))).arrayBuffer();
+      const response = await cachedFetchWasm(fetchWasm, opts("1"));
+
+      assert.equal(fetches, 1);
+      assert.deepEqual(
+        new Uint8Array(await response.arrayBuffer()),
+        new Uint8Array([0, 97, 115, 109]),
+      );
+      assert.equal(response.headers.get("content-type"), "application/wasm");
+    });
+
+    it("evicts other versions", async () => {
+      await cachedFetchWasm(fetchWasm, opts("1"));
+      await cachedFetchWasm(fetchWasm, opts("2"));
+
+      assert.equal(fetches, 2);
+      assert.deepEqual(await storage.keys(), [`${CACHE_PREFIX}2`]);
+    });
+
+    it("refetches corrupted entries", async () => {
+      await (await cachedFetchWasm(fetchWasm, opts("1"))).arrayBuffer();
+      const cache = await storage.open(`${CACHE_PREFIX}1`);
+      const cached = await cache.match(CACHE_KEY);
+      await cache.put(
+        CACHE_KEY,
+        new Response(new Uint8Array([0, 97]), { headers: cached?.headers }),
+      );
+
+      try {
+        await (await cachedFetchWasm(fetchWasm, opts("1"))).arrayBuffer();
+        assert.fail();
+      } catch (e) {
+        assert.match(String(e), /corrupted/);
+      }
+      await (await cachedFetchWasm(fetchWasm, opts("1"))).arrayBuffer();
+      assert.equal(fetches, 2);
+    });
+
+    it("falls back where the Cache API fails", async () => {
+      const denied = {
+        keys: async () => {
+          throw new DOMException("The operation is insecure.", "SecurityError");
+        },
+      } as unknown as CacheStorage;
+      const response = await cachedFetchWasm(fetchWasm, {
+        version: "1",
+        storage: denied,
+      });
+      assert.equal(fetches, 1);
+      assert.equal((await response.arrayBuffer()).byteLength, 4);
+
+      const full = new MemoryCacheStorage();
+      const cache = await full.open(`${CACHE_PREFIX}1`);
+      cache.put = async () => {
+        throw new DOMException("Quota exceeded.", "QuotaExceededError");
+      };
+      const uncached = await cachedFetchWasm(fetchWasm, {
+        version: "1",
+        storage: full as unknown as CacheStorage,
+      });
+      assert.equal((await uncached.arrayBuffer()).byteLength, 4);
+      assert.equal(fetches, 2);
+    });
+  });
+}
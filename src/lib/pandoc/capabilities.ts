@@ -0,0 +1,290 @@
+import { version as wasmVersion } from "wasm-pandoc/package.json";
+import * as z from "zod";
+
+import { openVersionedCache } from "./cache";
+import type { Extensions } from "./convert";
+import type { Pandoc } from "./index";
+
+const CACHE_PREFIX = "mypandoc-capabilities-";
+
+export type VersionInfo = {
+  version: string;
+  /** e.g. `{ lua: false, server: false }` */
+  features: Record<string, boolean>;
+  /** Absent when pandoc was built without one. */
+  scriptingEngine?: string | undefined;
+};
+
+export type Capabilities = {
+  version: VersionInfo;
+  inputFormats: string[];
+  outputFormats: string[];
+  highlightStyles: string[];
+};
+
+const zVersionInfo = z.object({
+  version: z.string(),
+  features: z.record(z.string(), z.boolean()),
+  scriptingEngine: z.string().optional(),
+});
+
+const zCapabilities = z.object({
+  version: zVersionInfo,
+  inputFormats: z.string().array(),
+  outputFormats: z.string().array(),
+  highlightStyles: z.string().array(),
+});
+
+const zExtensions = z.record(z.string(), z.boolean());
+
+export type CapabilitiesOpts = {
+  /** Cache entries of other versions are evicted. */
+  version?: string | undefined;
+  storage?: CacheStorage | undefined;
+};
+
+/** Parses `pandoc --version`. */
+export function parseVersion(text: string): VersionInfo {
+  const [first = "", ...lines] = text.split("\n");
+  const version = /^pandoc\s+(\S+)$/.exec(first.trim())?.[1];
+  if (typeof version === "undefined") {
+    throw new Error("Unexpected output of pandoc --version");
+  }
+
+  const info: VersionInfo = { version, features: {} };
+  for (const line of lines) {
+    const i = line.indexOf(":");
+    const [key, value] = [line.slice(0, i), line.slice(i + 1)];
+    switch (key) {
+      case "Features":
+        for (const feature of value.split(/\s+/).filter((v) => v !== "")) {
+          info.features[feature.slice(1)] = feature.startsWith("+");
+        }
+        break;
+
+      case "Scripting engine":
+        if (value.trim() !== "none") {
+          info.scriptingEngine = value.trim();
+        }
+        break;
+    }
+  }
+  return info;
+}
+
+/** Parses one-item-per-line output such as `--list-input-formats`. */
+export function parseList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((v) => v.trim())
+    .filter((v) => v !== "");
+}
+
+/** Parses `--list-extensions`; values are the defaults of the format. */
+export function parseExtensions(text: string): Extensions {
+  const extensions: Extensions = {};
+  for (const line of parseList(text)) {
+    extensions[line.slice(1)] = line.startsWith("+");
+  }
+  return extensions;
+}
+
+async function run(pandoc: Pandoc, args: string[]): Promise<string> {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  await pandoc({
+    args,
+    stdout: new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        chunks.push(new Uint8Array(chunk));
+      },
+    }),
+  });
+  return await new Blob(chunks).text();
+}
+
+/**
+ * Serves `compute()` from the Cache API, keyed by the wasm-pandoc version;
+ * entries that no longer match `schema` are recomputed, and failures of the
+ * Cache API only skip the cache.
+ */
+async function cached<T>(
+  key: string,
+  schema: z.ZodType<T>,
+  compute: () => Promise<T>,
+  { version = wasmVersion, storage = globalThis.caches }: CapabilitiesOpts,
+): Promise<T> {
+  if (typeof storage === "undefined") {
+    return await compute();
+  }
+
+  let cache: Cache;
+  let hit: Response | undefined;
+  try {
+    cache = await openVersionedCache(storage, CACHE_PREFIX, version);
+    hit = await cache.match(key);
+  } catch {
+    return await compute();
+  }
+
+  if (typeof hit !== "undefined") {
+    const parsed = schema.safeParse(await hit.json().catch(() => undefined));
+    if (parsed.success) {
+      return parsed.data;
+    }
+  }
+
+  const value = await compute();
+  await cache.put(key, Response.json(value)).catch(() => undefined);
+  return value;
+}
+
+/**
+ * Lists the readers, writers and highlight styles of the bundled pandoc;
+ * `getPandoc` is only called on a cache miss.
+ */
+export async function getCapabilities(
+  getPandoc: () => Promise<Pandoc>,
+  opts: CapabilitiesOpts = {},
+): Promise<Capabilities> {
+  return await cached(
+    "capabilities.json",
+    zCapabilities,
+    async () => {
+      const pandoc = await getPandoc();
+      return {
+        version: parseVersion(await run(pandoc, ["--version"])),
+        inputFormats: parseList(await run(pandoc, ["--list-input-formats"])),
+        outputFormats: parseList(await run(pandoc, ["--list-output-formats"])),
+        highlightStyles: parseList(
+          await run(pandoc, ["--list-highlight-styles"]),
+        ),
+      };
+    },
+    opts,
+  );
+}
+
+/**
+ * Lists the extensions `format` supports, with their defaults; `getPandoc`
+ * is only called on a cache miss.
+ */
+export async function getExtensions(
+  getPandoc: () => Promise<Pandoc>,
+  format: string,
+  opts: CapabilitiesOpts = {},
+): Promise<Extensions> {
+  if (!/^[a-z0-9_]+$/.test(format)) {
+    throw new Error(`Invalid format: ${format}`);
+  }
+
+  return await cached(
+    `extensions/${format}.json`,
+    zExtensions,
+    async () =>
+      parseExtensions(
+        await run(await getPandoc(), [`--list-extensions=${format}`]),
+      ),
+    opts,
+  );
+}
+
+if (import.meta.vitest) {
+  const { testPandoc } = await import("../../test/pandoc");
+  const { MemoryCacheStorage } = await import("../../test/cache");
+
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("parse", () => {
+    it("parseVersion", () => {
+      assert.deepEqual(
+        parseVersion(
+          [
+            "pandoc 3.7.0.1",
+            "Features: -server +lua",
+            "Scripting engine: Lua 5.4",
+            "User data directory: ",
+            "Copyright (C) 2006-2024 John MacFarlane. Web: https://pandoc.org",
+          ].join("\n"),
+        ),
+        {
+          version: "3.7.0.1",
+          features: { server: false, lua: true },
+          scriptingEngine: "Lua 5.4",
+        },
+      );
+      assert.throws(() => parseVersion("pandoc: unknown option"));
+    });
+
+    it("parseExtensions", () => {
+      assert.deepEqual(parseExtensions("+alerts\n-smart\n"), {
+        alerts: true,
+        smart: false,
+      });
+    });
+  });
+
+  describe("getCapabilities", () => {
+    it("queries pandoc", async () => {
+      const outputs: Record<string, string> = {
+        "--version": "pandoc 3.7.0.1\nFeatures: -server -lua\n",
+        "--list-input-formats": "gfm\nmarkdown\n",
+        "--list-output-formats": "html5\nrevealjs\n",
+        "--list-highlight-styles": "pygments\ntango\n",
+      };
+      const fake: Pandoc = async ({ args = [], stdout }) => {
+        const writer = stdout?.getWriter();
+        await writer?.write(new TextEncoder().encode(outputs[args[0] ?? ""]));
+        writer?.releaseLock();
+        return { exitCode: 0, stderr: "", files: [] };
+      };
+
+      assert.deepEqual(await getCapabilities(async () => fake), {
+        version: {
+          version: "3.7.0.1",
+          features: { server: false, lua: false },
+        },
+        inputFormats: ["gfm", "markdown"],
+        outputFormats: ["html5", "revealjs"],
+        highlightStyles: ["pygments", "tango"],
+      });
+    });
+
+    it("getExtensions", async () => {
+      const extensions = await getExtensions(testPandoc, "gfm");
+      assert.equal(extensions["task_lists"], true);
+      assert.equal(extensions["smart"], false);
+
+      try {
+        await getExtensions(testPandoc, "gfm --version");
+        assert.fail();
+      } catch (e) {
+        assert.match(String(e), /Invalid format/);
+      }
+    });
+
+    it("caches per version", async () => {
+      const memory = new MemoryCacheStorage();
+      const storage = memory as unknown as CacheStorage;
+
+      // Counts the pandoc instances started, not only the runs.
+      let starts = 0;
+      const getPandoc = async (): Promise<Pandoc> => {
+        starts++;
+        return async ({ stdout }) => {
+          const writer = stdout?.getWriter();
+          await writer?.write(new TextEncoder().encode("+smart\n"));
+          writer?.releaseLock();
+          return { exitCode: 0, stderr: "", files: [] };
+        };
+      };
+
+      await getExtensions(getPandoc, "markdown", { version: "1", storage });
+      await getExtensions(getPandoc, "markdown", { version: "1", storage });
+      assert.equal(starts, 1);
+
+      await getExtensions(getPandoc, "markdown", { version: "2", storage });
+      assert.equal(starts, 2);
+      assert.deepEqual(await memory.keys(), [`${CACHE_PREFIX}2`]);
+    });
+  });
+}
@@ -0,0 +1,488 @@
+import * as z from "zod";
+
+import type { ParsedArg } from "./argv";
+import { flagValue, parseArgs } from "./argv";
+import type { Pandoc, PandocOpts, PandocResult } from "./index";
+
+export type Extensions = Record<string, boolean>;
+
+export type ConvertOptions = {
+  from?: string | undefined;
+  to?: string | undefined;
+  extensions?:
+    | { from?: Extensions | undefined; to?: Extensions | undefined }
+    | undefined;
+  standalone?: boolean | undefined;
+  titlePrefix?: string | undefined;
+  /** `-V`; `true` sets a variable without a value. */
+  variables?: Record<string, string | true> | undefined;
+  /** `-M`; `true` sets a field without a value. */
+  metadata?: Record<string, string | true> | undefined;
+  toc?: boolean | undefined;
+  tocDepth?: number | undefined;
+  numberSections?: boolean | undefined;
+  slideLevel?: number | undefined;
+  template?: string | undefined;
+  /** Styles for docx, odt and pptx output. */
+  referenceDoc?: string | undefined;
+  css?: string[] | undefined;
+  wrap?: "auto" | "none" | "preserve" | undefined;
+  columns?: number | undefined;
+  embedResources?: boolean | undefined;
+  citeproc?: boolean | undefined;
+  /** Paths of `.bib`, CSL JSON or YAML bibliographies. */
+  bibliography?: string[] | undefined;
+  /** Path of a `.csl` style. */
+  csl?: string | undefined;
+  /** Paths of Lua filters, applied in order. */
+  luaFilters?: string[] | undefined;
+  /** Input files; stdin is read when empty. */
+  inputs?: string[] | undefined;
+};
+
+const zName = z.string().regex(/^[a-z0-9_]+$/);
+const zExtensions = z.record(zName, z.boolean());
+const zFields = z.record(
+  z.string().regex(/^[^=:]+$/),
+  z.union([z.string(), z.literal(true)]),
+);
+
+export const zConvertOptions = z.strictObject({
+  from: zName.optional(),
+  to: zName.optional(),
+  extensions: z
+    .strictObject({
+      from: zExtensions.optional(),
+      to: zExtensions.optional(),
+    })
+    .optional(),
+  standalone: z.boolean().optional(),
+  titlePrefix: z.string().optional(),
+  variables: zFields.optional(),
+  metadata: zFields.optional(),
+  toc: z.boolean().optional(),
+  tocDepth: z.int().min(1).max(6).optional(),
+  numberSections: z.boolean().optional(),
+  slideLevel: z.int().min(0).max(6).optional(),
+  template: z.string().min(1).optional(),
+  referenceDoc: z.string().min(1).optional(),
+  css: z.string().min(1).array().optional(),
+  wrap: z.enum(["auto", "none", "preserve"]).optional(),
+  columns: z.int().positive().optional(),
+  embedResources: z.boolean().optional(),
+  citeproc: z.boolean().optional(),
+  bibliography: z.string().min(1).array().optional(),
+  csl: z.string().min(1).optional(),
+  luaFilters: z.string().min(1).array().optional(),
+  inputs: z.string().min(1).array().optional(),
+}) satisfies z.ZodType<ConvertOptions>;
+
+function formatSpec(format: string, extensions: Extensions = {}): string {
+  return (
+    format +
+    Object.entries(extensions)
+      .map(([name, enabled]) => `${enabled ? "+" : "-"}${name}`)
+      .join("")
+  );
+}
+
+function parseFormatSpec(spec: string): [string, Extensions | undefined] {
+  const [format = "", ...rest] = spec.split(/(?=[+-])/);
+  if (rest.length < 1) {
+    return [format, undefined];
+  }
+
+  const extensions: Extensions = {};
+  for (const ext of rest) {
+    extensions[ext.slice(1)] = ext.startsWith("+");
+  }
+  return [format, extensions];
+}
+
+function field(key: string, value: string | true): string {
+  return value === true ? key : `${key}=${value}`;
+}
+
+function parseField(text: string): [string, string | true] {
+  const i = text.search(/[=:]/);
+  if (i < 0) {
+    return [text, true];
+  }
+  return [text.slice(0, i), text.slice(i + 1)];
+}
+
+/** Validates `options` and renders them as pandoc arguments. */
+export function toArgs(options: ConvertOptions): string[] {
+  const opts = zConvertOptions.parse(options);
+  const args: string[] = [];
+
+  if (typeof opts.from !== "undefined") {
+    args.push(`-f${formatSpec(opts.from, opts.extensions?.from)}`);
+  }
+  if (typeof opts.to !== "undefined") {
+    args.push(`-t${formatSpec(opts.to, opts.extensions?.to)}`);
+  }
+  if (opts.standalone) {
+    args.push("-s");
+  }
+  if (typeof opts.titlePrefix !== "undefined") {
+    args.push(`-T${opts.titlePrefix}`);
+  }
+  for (const [key, value] of Object.entries(opts.variables ?? {})) {
+    args.push(`-V${field(key, value)}`);
+  }
+  for (const [key, value] of Object.entries(opts.metadata ?? {})) {
+    args.push(`-M${field(key, value)}`);
+  }
+  if (opts.toc) {
+    args.push("--toc");
+  }
+  if (typeof opts.tocDepth !== "undefined") {
+    args.push(`--toc-depth=${opts.tocDepth}`);
+  }
+  if (opts.numberSections) {
+    args.push("-N");
+  }
+  if (typeof opts.slideLevel !== "undefined") {
+    args.push(`--slide-level=${opts.slideLevel}`);
+  }
+  if (typeof opts.template !== "undefined") {
+    args.push(`--template=${opts.template}`);
+  }
+  if (typeof opts.referenceDoc !== "undefined") {
+    args.push(`--reference-doc=${opts.referenceDoc}`);
+  }
+  for (const css of opts.css ?? []) {
+    args.push(`-c${css}`);
+  }
+  if (typeof opts.wrap !== "undefined") {
+    args.push(`--wrap=${opts.wrap}`);
+  }
+  if (typeof opts.columns !== "undefined") {
+    args.push(`--columns=${opts.columns}`);
+  }
+  if (opts.embedResources) {
+    args.push("--embed-resources");
+  }
+  if (opts.citeproc) {
+    args.push("--citeproc");
+  }
+  for (const bibliography of opts.bibliography ?? []) {
+    args.push(`--bibliography=${bibliography}`);
+  }
+  if (typeof opts.csl !== "undefined") {
+    args.push(`--csl=${opts.csl}`);
+  }
+  for (const filter of opts.luaFilters ?? []) {
+    args.push(`--lua-filter=${filter}`);
+  }
+  args.push(...(opts.inputs ?? []));
+
+  return args;
+}
+
+/**
+ * Parses pandoc arguments into `ConvertOptions`.
+ *
+ * Throws on options that `ConvertOptions` cannot represent.
+ */
+export function fromArgs(args: string[]): ConvertOptions {
+  const opts: ConvertOptions = {};
+  const inputs: string[] = [];
+
+  for (const parsed of parseArgs(args)) {
+    if ("input" in parsed) {
+      inputs.push(parsed.input);
+      continue;
+    }
+
+    const { option, value, arg } = parsed;
+    switch (option) {
+      case "from":
+      case "read": {
+        const [format, extensions] = parseFormatSpec(value ?? "");
+        opts.from = format;
+        if (typeof extensions !== "undefined") {
+          opts.extensions = { ...opts.extensions, from: extensions };
+        }
+        break;
+      }
+
+      case "to":
+      case "write": {
+        const [format, extensions] = parseFormatSpec(value ?? "");
+        opts.to = format;
+        if (typeof extensions !== "undefined") {
+          opts.extensions = { ...opts.extensions, to: extensions };
+        }
+        break;
+      }
+
+      case "standalone":
+        opts.standalone = flagValue(value, arg);
+        break;
+
+      case "title-prefix":
+        opts.titlePrefix = value;
+        break;
+
+      case "variable": {
+        const [key, v] = parseField(value ?? "");
+        opts.variables = { ...opts.variables, [key]: v };
+        break;
+      }
+
+      case "metadata": {
+        const [key, v] = parseField(value ?? "");
+        opts.metadata = { ...opts.metadata, [key]: v };
+        break;
+      }
+
+      case "toc":
+      case "table-of-contents":
+        opts.toc = flagValue(value, arg);
+        break;
+
+      case "toc-depth":
+        opts.tocDepth = Number(value);
+        break;
+
+      case "number-sections":
+        opts.numberSections = flagValue(value, arg);
+        break;
+
+      case "slide-level":
+        opts.slideLevel = Number(value);
+        break;
+
+      case "template":
+        opts.template = value;
+        break;
+
+      case "reference-doc":
+        opts.referenceDoc = value;
+        break;
+
+      case "css":
+        opts.css = [...(opts.css ?? []), value ?? ""];
+        break;
+
+      case "wrap":
+        opts.wrap = value as ConvertOptions["wrap"];
+        break;
+
+      case "columns":
+        opts.columns = Number(value);
+        break;
+
+      case "embed-resources":
+        opts.embedResources = flagValue(value, arg);
+        break;
+
+      case "citeproc":
+        opts.citeproc = flagValue(value, arg);
+        break;
+
+      case "bibliography":
+        opts.bibliography = [...(opts.bibliography ?? []), value ?? ""];
+        break;
+
+      case "csl":
+        opts.csl = value;
+        break;
+
+      case "lua-filter":
+        opts.luaFilters = [...(opts.luaFilters ?? []), value ?? ""];
+        break;
+
+      default:
+        throw new Error(`Unsupported option: ${arg}`);
+    }
+  }
+
+  if (inputs.length > 0) {
+    opts.inputs = inputs;
+  }
+  return zConvertOptions.parse(opts);
+}
+
+/** Writers that produce a binary file, with its extension. */
+export const binaryWriters: Record<string, string> = {
+  docx: "docx",
+  epub: "epub",
+  epub2: "epub",
+  epub3: "epub",
+  odt: "odt",
+  pptx: "pptx",
+};
+
+/**
+ * The extension of the file `args` write when the writer is binary. Like
+ * pandoc, the writer is `--to`, or else guessed from the extension of
+ * `output`, which defaults to the last `--output`.
+ */
+export function binaryExtension(
+  args: ParsedArg[],
+  output?: string,
+): string | undefined {
+  let to: string | undefined;
+  for (const v of args) {
+    if ("input" in v) {
+      continue;
+    }
+    if (v.option === "to" || v.option === "write") {
+      to = v.value;
+    } else if (v.option === "output" && typeof output === "undefined") {
+      output = v.value;
+    }
+  }
+
+  if (typeof to !== "undefined") {
+    // Without extensions, as in `docx+styles`.
+    const writer = /^\w*/.exec(to)?.[0] ?? "";
+    return Object.hasOwn(binaryWriters, writer)
+      ? binaryWriters[writer]
+      : undefined;
+  }
+  const ext = output?.split(".").pop();
+  return typeof ext !== "undefined" &&
+    Object.values(binaryWriters).includes(ext)
+    ? ext
+    : undefined;
+}
+
+/** Runs `pandoc` with arguments generated from `options`. */
+export async function convert(
+  pandoc: Pandoc,
+  options: ConvertOptions,
+  opts: Omit<PandocOpts, "args"> = {},
+): Promise<PandocResult> {
+  return await pandoc({ ...opts, args: toArgs(options) });
+}
+
+if (import.meta.vitest) {
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("toArgs", () => {
+    it("renders options", () => {
+      assert.deepEqual(
+        toArgs({
+          from: "markdown",
+          to: "revealjs",
+          extensions: { from: { smart: true, citations: false } },
+          standalone: true,
+          variables: { "revealjs-url": "https://unpkg.com/reveal.js@^5" },
+          metadata: { draft: true },
+          slideLevel: 3,
+        }),
+        [
+          "-fmarkdown+smart-citations",
+          "-trevealjs",
+          "-s",
+          "-Vrevealjs-url=https://unpkg.com/reveal.js@^5",
+          "-Mdraft",
+          "--slide-level=3",
+        ],
+      );
+    });
+
+    it("rejects invalid options", () => {
+      assert.throws(() => toArgs({ from: "mark down" }));
+      assert.throws(() => toArgs({ slideLevel: 1.5 }));
+      assert.throws(() => toArgs({ unknown: true } as ConvertOptions));
+    });
+  });
+
+  describe("fromArgs", () => {
+    it("parses every spelling", () => {
+      assert.deepEqual(
+        fromArgs([
+          "--from=gfm-autolink_bare_uris",
+          "-w",
+          "html5",
+          "--standalone",
+          "--variable",
+          "lang:ja",
+          "-Vmath",
+          "--table-of-contents",
+          "--toc-depth",
+          "2",
+          "-c",
+          "a.css",
+          "--css=b.css",
+          "in.md",
+        ]),
+        {
+          from: "gfm",
+          to: "html5",
+          extensions: { from: { autolink_bare_uris: false } },
+          standalone: true,
+          variables: { lang: "ja", math: true },
+          toc: true,
+          tocDepth: 2,
+          css: ["a.css", "b.css"],
+          inputs: ["in.md"],
+        },
+      );
+    });
+
+    it("round-trips", () => {
+      const args = [
+        "-fmarkdown",
+        "-tslidy",
+        "-s",
+        "-Ttitle",
+        "-Mauthor=me",
+        "--toc",
+        "-N",
+        "--slide-level=3",
+        "--template=custom.html",
+        "--reference-doc=custom.docx",
+        "--wrap=none",
+        "--columns=80",
+        "--embed-resources",
+        "--citeproc",
+        "--bibliography=a.bib",
+        "--bibliography=b.json",
+        "--csl=ieee.csl",
+        "--lua-filter=a.lua",
+        "--lua-filter=b.lua",
+      ];
+      assert.deepEqual(toArgs(fromArgs(args)), args);
+    });
+
+    it("honours flag values, clusters and --", () => {
+      assert.deepEqual(
+        fromArgs(["-sN", "--toc=false", "--citeproc=true", "--", "-x.md"]),
+        {
+          standalone: true,
+          numberSections: true,
+          toc: false,
+          citeproc: true,
+          inputs: ["-x.md"],
+        },
+      );
+      assert.deepEqual(toArgs(fromArgs(["--standalone=false"])), []);
+    });
+
+    it("rejects unsupported options", () => {
+      assert.throws(() => fromArgs(["--filter=x.py"]), /Unsupported/);
+      assert.throws(() => fromArgs(["-H", "x.html"]), /Unsupported/);
+      assert.throws(() => fromArgs(["--from"]), /Missing/);
+      assert.throws(() => fromArgs(["--wrap=never"]));
+      assert.throws(() => fromArgs(["--toc=no"]), /Unsupported/);
+    });
+  });
+
+  it("binaryExtension", () => {
+    const ext = (args: string[], output?: string) =>
+      binaryExtension(parseArgs(args), output);
+    assert.equal(ext(["-tdocx+styles", "--mathjax", "-i"]), "docx");
+    assert.equal(ext(["-tepub3"]), "epub");
+    assert.equal(ext(["-thtml5", "-o", "x.docx"]), undefined);
+    assert.equal(ext(["-o", "x.docx"]), "docx");
+    assert.equal(ext(["-o", "x.docx"], "x.html"), undefined);
+    assert.equal(ext(["-tconstructor"]), undefined);
+    assert.equal(ext([]), undefined);
+  });
+}
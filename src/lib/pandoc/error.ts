@@ -0,0 +1,107 @@
+import type { Diagnostic } from "./log";
+
+// https://pandoc.org/MANUAL.html#exit-codes
+const kinds = {
+  1: "IOError",
+  3: "FailOnWarningError",
+  4: "AppError",
+  5: "TemplateError",
+  6: "OptionError",
+  21: "UnknownReaderError",
+  22: "UnknownWriterError",
+  23: "UnsupportedExtensionError",
+  24: "CiteprocError",
+  25: "BibliographyError",
+  31: "EpubSubdirectoryError",
+  43: "PDFError",
+  44: "XMLError",
+  47: "PDFProgramNotFoundError",
+  61: "HttpError",
+  62: "ShouldNeverHappenError",
+  63: "SomeError",
+  64: "ParseError",
+  66: "MakePDFError",
+  67: "SyntaxMapError",
+  83: "FilterError",
+  84: "LuaError",
+  89: "NoScriptingEngine",
+  91: "MacroLoop",
+  92: "UTF8DecodingError",
+  93: "IpynbDecodingError",
+  94: "UnsupportedCharsetError",
+  97: "CouldNotFindDataFileError",
+  98: "CouldNotFindMetadataFileError",
+  99: "ResourceNotFound",
+  // Not pandoc's own: the GHC runtime exits with this once `-M` is exceeded.
+  251: "HeapOverflow",
+} as const;
+
+export type PandocErrorKind = (typeof kinds)[keyof typeof kinds] | "Unknown";
+
+function kindOf(exitCode: number): PandocErrorKind {
+  return kinds[exitCode as keyof typeof kinds] ?? "Unknown";
+}
+
+export class PandocError extends Error {
+  #exitCode: number;
+  #stderr: string;
+  #diagnostics: Diagnostic[] | undefined;
+
+  constructor(exitCode: number, stderr: string, diagnostics?: Diagnostic[]) {
+    const detail = stderr.trim().split("\n", 1)[0];
+    super(
+      `pandoc exited with ${exitCode} (${kindOf(exitCode)})` +
+        (detail ? `: ${detail}` : ""),
+    );
+    this.name = "PandocError";
+    this.#exitCode = exitCode;
+    this.#stderr = stderr;
+    this.#diagnostics = diagnostics;
+  }
+
+  get exitCode(): number {
+    return this.#exitCode;
+  }
+
+  get stderr(): string {
+    return this.#stderr;
+  }
+
+  get kind(): PandocErrorKind {
+    return kindOf(this.#exitCode);
+  }
+
+  /** What pandoc logged before it failed, when `PandocOpts.log` is set. */
+  get diagnostics(): Diagnostic[] | undefined {
+    return this.#diagnostics;
+  }
+}
+
+export class OutOfMemoryError extends Error {
+  #limit: number;
+
+  constructor(limit: number) {
+    super(`Out of memory: exceeded ${limit} bytes`);
+    this.name = "OutOfMemoryError";
+    this.#limit = limit;
+  }
+
+  get limit(): number {
+    return this.#limit;
+  }
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("PandocError", () => {
+    const err = new PandocError(21, "Unknown input format foo\n");
+
+    assert.equal(err.kind, "UnknownReaderError");
+    assert.equal(
+      err.message,
+      "pandoc exited with 21 (UnknownReaderError): Unknown input format foo",
+    );
+    assert.equal(new PandocError(2, "").kind, "Unknown");
+  });
+}
@@ -0,0 +1,511 @@
+import type {
+  Block,
+  Caption,
+  Citation,
+  Document,
+  Inline,
+  Meta,
+  MetaValue,
+  Row,
+} from "./ast";
+import { zDocument } from "./ast";
+import { formatArgs, parseArgs } from "./argv";
+import type { Pandoc } from "./index";
+
+/** Returning nothing keeps the document as it is. */
+export type Filter = (
+  doc: Document,
+) => Document | undefined | void | Promise<Document | undefined | void>;
+
+type Replacement<T> = T | T[] | undefined | void;
+
+/**
+ * Callbacks per element type, called bottom-up like pandoc's own `walk`.
+ * Returning nothing keeps the element, an array splices it (`[]` deletes).
+ */
+export type Walker = {
+  [T in Inline["t"]]?: (el: Extract<Inline, { t: T }>) => Replacement<Inline>;
+} & {
+  [T in Block["t"]]?: (el: Extract<Block, { t: T }>) => Replacement<Block>;
+} & {
+  Meta?: ((meta: Meta) => Meta | undefined | void) | undefined;
+};
+
+function apply<T extends { t: string }>(el: T, walker: Walker): T[] {
+  const fn = (
+    walker as Record<string, ((el: T) => Replacement<T>) | undefined>
+  )[el.t];
+  const replaced = fn?.(el);
+  if (typeof replaced === "undefined") {
+    return [el];
+  }
+  return Array.isArray(replaced) ? replaced : [replaced];
+}
+
+function walkInlines(inlines: Inline[], walker: Walker): Inline[] {
+  return inlines.flatMap((el) => apply(walkInline(el, walker), walker));
+}
+
+function walkBlocks(blocks: Block[], walker: Walker): Block[] {
+  return blocks.flatMap((el) => apply(walkBlock(el, walker), walker));
+}
+
+function walkCitation(citation: Citation, walker: Walker): Citation {
+  return {
+    ...citation,
+    citationPrefix: walkInlines(citation.citationPrefix, walker),
+    citationSuffix: walkInlines(citation.citationSuffix, walker),
+  };
+}
+
+function walkInline(el: Inline, walker: Walker): Inline {
+  switch (el.t) {
+    case "Emph":
+    case "Underline":
+    case "Strong":
+    case "Strikeout":
+    case "Superscript":
+    case "Subscript":
+    case "SmallCaps":
+      return { t: el.t, c: walkInlines(el.c, walker) };
+
+    case "Quoted":
+      return { t: el.t, c: [el.c[0], walkInlines(el.c[1], walker)] };
+
+    case "Cite":
+      return {
+        t: el.t,
+        c: [
+          el.c[0].map((v) => walkCitation(v, walker)),
+          walkInlines(el.c[1], walker),
+        ],
+      };
+
+    case "Link":
+    case "Image":
+      return { t: el.t, c: [el.c[0], walkInlines(el.c[1], walker), el.c[2]] };
+
+    case "Note":
+      return { t: el.t, c: walkBlocks(el.c, walker) };
+
+    case "Span":
+      return { t: el.t, c: [el.c[0], walkInlines(el.c[1], walker)] };
+
+    default:
+      return el;
+  }
+}
+
+function walkCaption([short, body]: Caption, walker: Walker): Caption {
+  return [
+    short === null ? null : walkInlines(short, walker),
+    walkBlocks(body, walker),
+  ];
+}
+
+function walkRows(rows: Row[], walker: Walker): Row[] {
+  return rows.map(([attr, cells]) => [
+    attr,
+    cells.map(([attr, align, rowSpan, colSpan, body]) => [
+      attr,
+      align,
+      rowSpan,
+      colSpan,
+      walkBlocks(body, walker),
+    ]),
+  ]);
+}
+
+function walkBlock(el: Block, walker: Walker): Block {
+  switch (el.t) {
+    case "Plain":
+    case "Para":
+      return { t: el.t, c: walkInlines(el.c, walker) };
+
+    case "LineBlock":
+      return { t: el.t, c: el.c.map((v) => walkInlines(v, walker)) };
+
+    case "BlockQuote":
+      return { t: el.t, c: walkBlocks(el.c, walker) };
+
+    case "OrderedList":
+      return {
+        t: el.t,
+        c: [el.c[0], el.c[1].map((v) => walkBlocks(v, walker))],
+      };
+
+    case "BulletList":
+      return { t: el.t, c: el.c.map((v) => walkBlocks(v, walker)) };
+
+    case "DefinitionList":
+      return {
+        t: el.t,
+        c: el.c.map(([term, defs]) => [
+          walkInlines(term, walker),
+          defs.map((v) => walkBlocks(v, walker)),
+        ]),
+      };
+
+    case "Header":
+      return { t: el.t, c: [el.c[0], el.c[1], walkInlines(el.c[2], walker)] };
+
+    case "Table": {
+      const [attr, caption, specs, [headAttr, head], bodies, [footAttr, foot]] =
+        el.c;
+      return {
+        t: el.t,
+        c: [
+          attr,
+          walkCaption(caption, walker),
+          specs,
+          [headAttr, walkRows(head, walker)],
+          bodies.map(([attr, columns, head, body]) => [
+            attr,
+            columns,
+            walkRows(head, walker),
+            walkRows(body, walker),
+          ]),
+          [footAttr, walkRows(foot, walker)],
+        ],
+      };
+    }
+
+    case "Figure":
+      return {
+        t: el.t,
+        c: [el.c[0], walkCaption(el.c[1], walker), walkBlocks(el.c[2], walker)],
+      };
+
+    case "Div":
+      return { t: el.t, c: [el.c[0], walkBlocks(el.c[1], walker)] };
+
+    default:
+      return el;
+  }
+}
+
+function walkMetaValue(value: MetaValue, walker: Walker): MetaValue {
+  switch (value.t) {
+    case "MetaMap":
+      return {
+        t: value.t,
+        c: Object.fromEntries(
+          Object.entries(value.c).map(([k, v]) => [
+            k,
+            walkMetaValue(v, walker),
+          ]),
+        ),
+      };
+
+    case "MetaList":
+      return { t: value.t, c: value.c.map((v) => walkMetaValue(v, walker)) };
+
+    case "MetaInlines":
+      return { t: value.t, c: walkInlines(value.c, walker) };
+
+    case "MetaBlocks":
+      return { t: value.t, c: walkBlocks(value.c, walker) };
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Returns a copy of `doc` with `walker` applied to every element. Callbacks
+ * get elements of the copy, so they may modify them in place.
+ */
+export function walkAst(doc: Document, walker: Walker): Document {
+  const copy = structuredClone(doc);
+  const meta = Object.fromEntries(
+    Object.entries(copy.meta).map(([k, v]) => [k, walkMetaValue(v, walker)]),
+  );
+  return {
+    ...copy,
+    meta: walker.Meta?.(meta) ?? meta,
+    blocks: walkBlocks(copy.blocks, walker),
+  };
+}
+
+/** Concatenates the text of `inlines`, e.g. for matching headings. */
+export function stringify(inlines: Inline[]): string {
+  let text = "";
+  walkInlines(inlines, {
+    Str: ({ c }) => {
+      text += c;
+    },
+    Space: () => {
+      text += " ";
+    },
+    SoftBreak: () => {
+      text += " ";
+    },
+    LineBreak: () => {
+      text += "\n";
+    },
+    Code: ({ c }) => {
+      text += c[1];
+    },
+    Math: ({ c }) => {
+      text += c[1];
+    },
+  });
+  return text;
+}
+
+// Only the first run reads the source; the second reads JSON.
+const readerOptions = new Set([
+  "from",
+  "read",
+  "metadata",
+  "metadata-file",
+  "shift-heading-level-by",
+  "indented-code-classes",
+  "default-image-extension",
+  "file-scope",
+  "tab-stop",
+  "preserve-tabs",
+  "track-changes",
+  "abbreviations",
+  "strip-comments",
+  "trace",
+]);
+
+// Passed to both runs.
+const sharedOptions = new Set([
+  "data-dir",
+  "resource-path",
+  "request-header",
+  "no-check-certificate",
+  "sandbox",
+  "verbose",
+  "quiet",
+  "fail-if-warnings",
+]);
+
+/**
+ * Wraps `pandoc` so that documents go through `filters` in order, as
+ * pandoc's `--filter` would; the WASM build cannot spawn filter processes.
+ *
+ * The input is read to a JSON AST in one run and rendered in a second; reader
+ * options go to the first and everything else to the second. Lua filters
+ * run in the second, after `filters`.
+ */
+export function withFilters(pandoc: Pandoc, filters: Filter[]): Pandoc {
+  return async ({ args = [], stdin, stdout, output, luaFilters, ...opts }) => {
+    const parsed = parseArgs(args);
+    const reading = parsed.filter(
+      (v) =>
+        "input" in v ||
+        readerOptions.has(v.option) ||
+        sharedOptions.has(v.option),
+    );
+    const writing = parsed.filter(
+      (v) => !("input" in v) && !readerOptions.has(v.option),
+    );
+
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    const read = await pandoc({
+      ...opts,
+      args: ["--to=json", ...formatArgs(reading)],
+      stdin,
+      stdout: new WritableStream<Uint8Array>({
+        write: (chunk) => {
+          chunks.push(new Uint8Array(chunk));
+        },
+      }),
+    });
+
+    let doc = zDocument.parse(JSON.parse(await new Blob(chunks).text()));
+    for (const filter of filters) {
+      opts.signal?.throwIfAborted();
+      doc = zDocument.parse((await filter(doc)) ?? doc);
+    }
+
+    const result = await pandoc({
+      ...opts,
+      args: ["--from=json", ...formatArgs(writing)],
+      stdin: new Blob([JSON.stringify(doc)]).stream(),
+      stdout,
+      output,
+      luaFilters,
+    });
+    return {
+      ...result,
+      stderr: read.stderr + result.stderr,
+      diagnostics:
+        opts.log === true
+          ? [...(read.diagnostics ?? []), ...(result.diagnostics ?? [])]
+          : undefined,
+    };
+  };
+}
+
+if (import.meta.vitest) {
+  const { document } = await import("./ast");
+  const { testPandoc } = await import("../../test/pandoc");
+
+  const { describe, it, assert } = import.meta.vitest;
+
+  const pandoc = await testPandoc();
+
+  describe("walkAst", () => {
+    const doc = document(
+      [
+        {
+          t: "Header",
+          c: [1, ["", [], []], [{ t: "Emph", c: [{ t: "Str", c: "Hi" }] }]],
+        },
+        {
+          t: "Div",
+          c: [["", ["draft"], []], [{ t: "Para", c: [{ t: "Str", c: "x" }] }]],
+        },
+        {
+          t: "Para",
+          c: [
+            {
+              t: "Link",
+              c: [["", [], []], [{ t: "Str", c: "l" }], ["http://a/", ""]],
+            },
+          ],
+        },
+      ],
+      { title: { t: "MetaInlines", c: [{ t: "Str", c: "hi" }] } },
+    );
+
+    it("replaces, splices and deletes bottom-up", () => {
+      const seen: string[] = [];
+      const walked = walkAst(doc, {
+        Str: (el) => {
+          seen.push(el.c);
+          return { t: "Str", c: el.c.toUpperCase() };
+        },
+        Emph: (el) => el.c,
+        Div: (el) => (el.c[0][1].includes("draft") ? [] : undefined),
+        Link: (el) => {
+          el.c[2][0] = el.c[2][0].replace("http:", "https:");
+          return el;
+        },
+      });
+
+      assert.deepEqual(seen, ["hi", "Hi", "x", "l"]);
+      assert.deepEqual(
+        walked,
+        document(
+          [
+            { t: "Header", c: [1, ["", [], []], [{ t: "Str", c: "HI" }]] },
+            {
+              t: "Para",
+              c: [
+                {
+                  t: "Link",
+                  c: [["", [], []], [{ t: "Str", c: "L" }], ["https://a/", ""]],
+                },
+              ],
+            },
+          ],
+          { title: { t: "MetaInlines", c: [{ t: "Str", c: "HI" }] } },
+        ),
+      );
+
+      assert.deepEqual(doc.blocks[2], {
+        t: "Para",
+        c: [
+          {
+            t: "Link",
+            c: [["", [], []], [{ t: "Str", c: "l" }], ["http://a/", ""]],
+          },
+        ],
+      });
+    });
+
+    it("stringify", () => {
+      assert.equal(
+        stringify([
+          { t: "Str", c: "a" },
+          { t: "Space" },
+          { t: "Strong", c: [{ t: "Str", c: "b" }] },
+          { t: "Code", c: [["", [], []], "c"] },
+        ]),
+        "a bc",
+      );
+    });
+  });
+
+  describe("withFilters", () => {
+    it("runs filters in order", async () => {
+      const order: number[] = [];
+      const filtered = withFilters(pandoc, [
+        (doc) => {
+          order.push(1);
+          return walkAst(doc, {
+            Div: (el) => (el.c[0][1].includes("draft") ? [] : undefined),
+          });
+        },
+        async (doc) => {
+          order.push(2);
+          return walkAst(doc, {
+            Link: ({ c: [attr, inlines, [url, title]] }) => ({
+              t: "Link",
+              c: [attr, inlines, [url.replace(/\.md$/, ".html"), title]],
+            }),
+          });
+        },
+        () => {
+          order.push(3);
+        },
+      ]);
+
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
+      await filtered({
+        args: ["-fmarkdown", "-thtml5"],
+        stdin: new Blob([
+          "::: draft\nsecret\n:::\n\n[next](next.md)\n",
+        ]).stream(),
+        stdout: new WritableStream<Uint8Array>({
+          write: (chunk) => {
+            chunks.push(new Uint8Array(chunk));
+          },
+        }),
+      });
+
+      assert.deepEqual(order, [1, 2, 3]);
+      assert.equal(
+        await new Blob(chunks).text(),
+        '<p><a href="next.html">next</a></p>\n',
+      );
+    });
+
+    it("passes options through", async () => {
+      const filtered = withFilters(pandoc, []);
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
+      await filtered({
+        args: ["-fmarkdown-smart", "-thtml5", "--mathjax", "-i", "--", "-a.md"],
+        files: { "-a.md": new TextEncoder().encode("$x$ '1'") },
+        stdout: new WritableStream<Uint8Array>({
+          write: (chunk) => {
+            chunks.push(new Uint8Array(chunk));
+          },
+        }),
+      });
+
+      assert.equal(
+        await new Blob(chunks).text(),
+        `<p><span class="math inline">\\(x\\)</span> '1'</p>\n`,
+      );
+    });
+
+    it("writes output files", async () => {
+      const filtered = withFilters(pandoc, [
+        (doc) => walkAst(doc, { Str: (el) => ({ t: "Str", c: `${el.c}!` }) }),
+      ]);
+      const { output } = await filtered({
+        args: ["-fmarkdown", "-tmarkdown", "in.md"],
+        files: { "in.md": new TextEncoder().encode("Hi") },
+        output: "out.md",
+      });
+
+      assert.equal(new TextDecoder().decode(output?.data), "Hi!\n");
+    });
+  });
+}
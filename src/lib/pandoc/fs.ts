@@ -0,0 +1,234 @@
+let nextIno = 1n;
+
+function now(): bigint {
+  return BigInt(Date.now()) * 1_000_000n;
+}
+
+export class File {
+  readonly ino = nextIno++;
+  mtime = now();
+  #buf: Uint8Array<ArrayBuffer>;
+  #size: number;
+  #modified = false;
+
+  constructor(data: Uint8Array = new Uint8Array()) {
+    this.#buf = new Uint8Array(data);
+    this.#size = data.length;
+  }
+
+  get size(): number {
+    return this.#size;
+  }
+
+  get data(): Uint8Array<ArrayBuffer> {
+    return this.#buf.subarray(0, this.#size);
+  }
+
+  /** Whether the file has been written since it was created. */
+  get modified(): boolean {
+    return this.#modified;
+  }
+
+  read(offset: number, length: number): Uint8Array<ArrayBuffer> {
+    return this.#buf.subarray(offset, Math.min(offset + length, this.#size));
+  }
+
+  write(offset: number, data: Uint8Array): void {
+    this.#reserve(offset + data.length);
+    this.#buf.set(data, offset);
+    this.#size = Math.max(this.#size, offset + data.length);
+    this.#touch();
+  }
+
+  truncate(size: number): void {
+    this.#reserve(size);
+    this.#buf.fill(0, Math.min(this.#size, size), size);
+    this.#size = size;
+    this.#touch();
+  }
+
+  #reserve(capacity: number): void {
+    if (capacity <= this.#buf.length) {
+      return;
+    }
+
+    const buf = new Uint8Array(Math.max(capacity, this.#buf.length * 2));
+    buf.set(this.data);
+    this.#buf = buf;
+  }
+
+  #touch(): void {
+    this.mtime = now();
+    this.#modified = true;
+  }
+}
+
+export class Directory {
+  readonly ino = nextIno++;
+  mtime = now();
+  #entries = new Map<string, Node>();
+
+  get(name: string): Node | undefined {
+    return this.#entries.get(name);
+  }
+
+  set(name: string, node: Node): void {
+    this.#entries.set(name, node);
+    this.mtime = now();
+  }
+
+  delete(name: string): boolean {
+    const deleted = this.#entries.delete(name);
+    if (deleted) {
+      this.mtime = now();
+    }
+    return deleted;
+  }
+
+  entries(): [name: string, node: Node][] {
+    return [...this.#entries];
+  }
+}
+
+export type Node = File | Directory;
+
+export function splitPath(path: string): string[] {
+  return path.split("/").filter((v) => v !== "" && v !== ".");
+}
+
+/** Creates the directory at `path` and its parents, like `mkdir -p`. */
+export function mkdirp(root: Directory, path: string): Directory {
+  const components = splitPath(path);
+  if (components.includes("..")) {
+    throw new Error(`Invalid path: ${path}`);
+  }
+
+  let dir = root;
+  for (const component of components) {
+    const node = dir.get(component);
+    if (node instanceof File) {
+      throw new Error(`Not a directory: ${path}`);
+    }
+    if (typeof node === "undefined") {
+      const child = new Directory();
+      dir.set(component, child);
+      dir = child;
+    } else {
+      dir = node;
+    }
+  }
+  return dir;
+}
+
+export function mkfs(files: Record<string, Uint8Array>): Directory {
+  const root = new Directory();
+
+  for (const [path, data] of Object.entries(files)) {
+    const components = splitPath(path);
+    const name = components.pop();
+    if (typeof name === "undefined" || components.includes("..")) {
+      throw new Error(`Invalid path: ${path}`);
+    }
+
+    const dir = mkdirp(root, components.join("/"));
+    if (dir.get(name) instanceof Directory) {
+      throw new Error(`Is a directory: ${path}`);
+    }
+    dir.set(name, new File(data));
+  }
+
+  return root;
+}
+
+export function* walk(
+  dir: Directory,
+  prefix = "",
+): Generator<[path: string, file: File]> {
+  for (const [name, node] of dir.entries()) {
+    const path = `${prefix}${name}`;
+    if (node instanceof Directory) {
+      yield* walk(node, `${path}/`);
+    } else {
+      yield [path, node];
+    }
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("File", () => {
+    it("grows on write", () => {
+      const file = new File(new TextEncoder().encode("Hello"));
+      file.write(5, new TextEncoder().encode(", World!"));
+
+      assert.equal(new TextDecoder().decode(file.data), "Hello, World!");
+      assert.equal(file.modified, true);
+    });
+
+    it("truncates", () => {
+      const file = new File(new TextEncoder().encode("Hello"));
+      file.truncate(2);
+      file.truncate(4);
+
+      assert.deepEqual([...file.data], [72, 101, 0, 0]);
+    });
+  });
+
+  describe("mkfs", () => {
+    it("creates nested directories", () => {
+      const root = mkfs({
+        "/in.md": new TextEncoder().encode("# Hello"),
+        "templates/default.html": new TextEncoder().encode("$body$"),
+      });
+
+      const file = root.get("in.md");
+      assert.equal(
+        file instanceof File && new TextDecoder().decode(file.data),
+        "# Hello",
+      );
+
+      const templates = root.get("templates");
+      assert.equal(
+        templates instanceof Directory &&
+          templates.get("default.html") instanceof File,
+        true,
+      );
+    });
+
+    it("walks files", () => {
+      const root = mkfs({
+        "a.md": new Uint8Array(),
+        "b/c.md": new Uint8Array(),
+      });
+
+      assert.deepEqual(
+        [...walk(root)].map(([path]) => path),
+        ["a.md", "b/c.md"],
+      );
+    });
+
+    it("rejects paths escaping the root", () => {
+      assert.throws(() => mkfs({ "../etc/passwd": new Uint8Array() }));
+    });
+  });
+
+  describe("mkdirp", () => {
+    it("creates missing parents", () => {
+      const root = mkfs({ "a/b.md": new Uint8Array() });
+      const dir = mkdirp(root, "/a/c/d");
+
+      const a = root.get("a");
+      const c = a instanceof Directory ? a.get("c") : undefined;
+      assert.equal(c instanceof Directory && c.get("d"), dir);
+      assert.equal(mkdirp(root, "a/c/d"), dir);
+      assert.equal(mkdirp(root, ""), root);
+    });
+
+    it("rejects files and escaping paths", () => {
+      const root = mkfs({ "a/b.md": new Uint8Array() });
+      assert.throws(() => mkdirp(root, "a/b.md/c"), /Not a directory/);
+      assert.throws(() => mkdirp(root, "../a"), /Invalid path/);
+    });
+  });
+}
@@ -1,19 +1,149 @@
-import { wasi } from "./wasi";
+import { cachedFetchWasm, CorruptedCacheError } from "./cache";
+import { toArgs } from "./convert";
+import { OutOfMemoryError, PandocError } from "./error";
+import { File, mkdirp, mkfs, splitPath, walk } from "./fs";
+import type { Diagnostic } from "./log";
+import { parseLog } from "./log";
+import { mimeType } from "./mime";
+import type { RandomSource } from "./random";
+import { seededRandom } from "./random";
+import type { RtsOpts } from "./rts";
+import type { Trace, TraceEntry } from "./trace";
+import { defaultRtsOpts, rtsArgs } from "./rts";
+import { hasJspi, wasi } from "./wasi";
 
 export type PandocOpts = {
   args?: string[] | undefined;
   stdin?: ReadableStream<Uint8Array> | undefined;
   stdout?: WritableStream<Uint8Array> | undefined;
   stderr?: WritableStream<Uint8Array> | undefined;
+  /** Files readable by pandoc, keyed by their path relative to `/`. */
+  files?: Record<string, Uint8Array> | undefined;
+  /** Passed as `-o`; the written file is returned as `PandocResult.output`. */
+  output?: string | undefined;
+  /** Aborts the run at the next syscall; the call rejects with its reason. */
+  signal?: AbortSignal | undefined;
+  /** Wall-clock limit in milliseconds; rejects with a `TimeoutError`. */
+  timeout?: number | undefined;
+  /** Overrides `NewPandocOpts.rts` per option. */
+  rts?: RtsOpts | undefined;
+  /** Overrides `NewPandocOpts.maxMemory`. */
+  maxMemory?: number | undefined;
+  /** Environment variables, e.g. `SOURCE_DATE_EPOCH` or `LANG`. */
+  env?: Record<string, string> | undefined;
+  /** Source of `random_get`, e.g. `seededRandom()` for reproducible output. */
+  random?: RandomSource | undefined;
+  /** Reports every WASI syscall, for debugging. */
+  trace?: Trace | undefined;
+  /**
+   * Mounted under `/lua-filters/` and applied in order with `--lua-filter`.
+   * Needs a pandoc built with Lua; otherwise it exits with
+   * `NoScriptingEngine`.
+   */
+  luaFilters?: LuaFilter[] | undefined;
+  /** Passes `--log` and returns its entries as `PandocResult.diagnostics`. */
+  log?: boolean | undefined;
 };
 
-export type Pandoc = (opts: PandocOpts) => Promise<void>;
+export type LuaFilter = {
+  /** File name, e.g. `diagram.lua`. */
+  name: string;
+  source: string | Uint8Array;
+};
+
+const LUA_FILTER_DIR = "lua-filters";
+const LOG_FILE = ".mypandoc-log.json";
+
+export type PandocFile = {
+  path: string;
+  type: string;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+export type PandocResult = {
+  exitCode: number;
+  stderr: string;
+  /** Files created or modified by pandoc. */
+  files: PandocFile[];
+  output?: PandocFile | undefined;
+  /** Present when `PandocOpts.log` is set. */
+  diagnostics?: Diagnostic[] | undefined;
+};
+
+export type Pandoc = (opts: PandocOpts) => Promise<PandocResult>;
+
+export { OutOfMemoryError, PandocError, seededRandom };
+export type { PandocErrorKind } from "./error";
+export type { RtsOpts, Size } from "./rts";
+export type { RandomSource } from "./random";
+export type { Trace, TraceEntry } from "./trace";
+export type { NewWorkerPandocOpts, WorkerPandoc } from "./remote";
+export { canTransferStreams, newWorkerPandoc } from "./remote";
+export type { ConvertOptions, Extensions } from "./convert";
+export {
+  binaryExtension,
+  binaryWriters,
+  convert,
+  fromArgs,
+  toArgs,
+  zConvertOptions,
+} from "./convert";
+export type {
+  Attr,
+  Block,
+  Document,
+  Inline,
+  Meta,
+  MetaValue,
+  AstOpts,
+  FromAstResult,
+} from "./ast";
+export {
+  API_VERSION,
+  document,
+  fromAst,
+  toAst,
+  zBlock,
+  zDocument,
+  zInline,
+  zMeta,
+  zMetaValue,
+} from "./ast";
+export type {
+  Capabilities,
+  CapabilitiesOpts,
+  VersionInfo,
+} from "./capabilities";
+export { getCapabilities, getExtensions } from "./capabilities";
+export type { Filter, Walker } from "./filter";
+export { stringify, walkAst, withFilters } from "./filter";
+export type { FetchResource, WithResourcesOpts } from "./resources";
+export { listResources, mapResources, withResources } from "./resources";
+export type { Diagnostic, Verbosity } from "./log";
+export { parseLog } from "./log";
+export type { Arity, ParsedArg } from "./argv";
+export { expandOption, formatArgs, parseArgs } from "./argv";
+export type { Finding, PolicyResult, Verdict } from "./policy";
+export { checkArgs, enforcePolicy, PolicyError } from "./policy";
 
 export type NewPandocOpts = {
   fetchWasm?: () => Promise<Response>;
+  /** GHC runtime options; defaults to a 64 MiB suggested heap. */
+  rts?: RtsOpts | undefined;
+  /**
+   * Upper bound in bytes for the `WebAssembly.Memory` of each run. It is
+   * checked on syscalls only; see `WasiOpts.maxMemory`.
+   */
+  maxMemory?: number | undefined;
+  /**
+   * Whether to run through JSPI; detected by default. Without it, stdin is
+   * buffered up front and stdout/stderr are only written once pandoc exits.
+   */
+  jspi?: boolean | undefined;
 };
 
-async function defaultFetchWasm(): Promise<Response> {
+/** Fetches the pandoc.wasm bundled with the app. */
+async function fetchBundledWasm(): Promise<Response> {
   const response = await fetch(
     new URL("wasm-pandoc/pandoc.wasm", import.meta.url),
   );
@@ -23,42 +153,155 @@ async function defaultFetchWasm(): Promise<Response> {
   return response;
 }
 
+async function fetchCachedWasm(): Promise<Response> {
+  return await cachedFetchWasm(fetchBundledWasm);
+}
+
 export async function newPandoc({
-  fetchWasm = defaultFetchWasm,
+  fetchWasm = fetchCachedWasm,
+  rts = defaultRtsOpts,
+  maxMemory,
+  jspi = hasJspi(),
 }: NewPandocOpts): Promise<Pandoc> {
-  const mod = await WebAssembly.compileStreaming(fetchWasm());
+  let mod: WebAssembly.Module;
+  try {
+    mod = await WebAssembly.compileStreaming(fetchWasm());
+  } catch (e) {
+    if (!(e instanceof CorruptedCacheError)) {
+      throw e;
+    }
+    // The entry is evicted, so this fetches from the network.
+    mod = await WebAssembly.compileStreaming(fetchWasm());
+  }
 
   return async (opts) => {
-    const [imports, start] = wasi({
-      ...opts,
-      args: ["pandoc", "+RTS", "-H64m", "-RTS", ...(opts.args ?? [])],
+    const signal = AbortSignal.any(
+      [
+        opts.signal,
+        typeof opts.timeout !== "undefined"
+          ? AbortSignal.timeout(opts.timeout)
+          : undefined,
+      ].filter((v) => typeof v !== "undefined"),
+    );
+    signal.throwIfAborted();
+
+    const paths = new Set(
+      Object.keys(opts.files ?? {}).map((path) => splitPath(path).join("/")),
+    );
+    const luaFilters = (opts.luaFilters ?? []).map(({ name, source }) => {
+      const components = splitPath(name);
+      if (components.length !== 1 || components[0] !== name || name === "..") {
+        throw new Error(`Invalid Lua filter name: ${name}`);
+      }
+      const path = `${LUA_FILTER_DIR}/${name}`;
+      if (paths.has(path)) {
+        throw new Error(`Lua filter collides with another file: ${path}`);
+      }
+      paths.add(path);
+      return [
+        path,
+        typeof source === "string" ? new TextEncoder().encode(source) : source,
+      ] as const;
     });
-    const instance = await WebAssembly.instantiate(mod, imports);
+    const root = mkfs({ ...opts.files, ...Object.fromEntries(luaFilters) });
+    const seeded = new Set<File>([...walk(root)].map(([, file]) => file));
 
-    if (!(instance.exports["memory"] instanceof WebAssembly.Memory)) {
-      throw new Error();
+    const args = [
+      ...(opts.args ?? []),
+      ...toArgs({ luaFilters: luaFilters.map(([path]) => `/${path}`) }),
+    ];
+    if (typeof opts.output !== "undefined") {
+      // pandoc does not create the directory it writes to.
+      mkdirp(root, splitPath(opts.output).slice(0, -1).join("/"));
+      args.push("-o", opts.output);
     }
+    if (opts.log) {
+      args.push(`--log=/${LOG_FILE}`);
+    }
+
+    const stderrChunks: Uint8Array<ArrayBuffer>[] = [];
+    const forward = opts.stderr?.getWriter();
+    try {
+      const stderr = new WritableStream<Uint8Array>({
+        write: async (chunk) => {
+          stderrChunks.push(new Uint8Array(chunk));
+          await forward?.write(chunk);
+        },
+      });
+
+      const [imports, start] = wasi({
+        ...opts,
+        args: ["pandoc", ...rtsArgs({ ...rts, ...opts.rts }), ...args],
+        stderr,
+        preopens: { "/": root },
+        signal,
+        maxMemory: opts.maxMemory ?? maxMemory,
+        deadline:
+          typeof opts.timeout !== "undefined"
+            ? performance.now() + opts.timeout
+            : undefined,
+        jspi,
+      });
+      const instance = await WebAssembly.instantiate(mod, imports);
+
+      if (!(instance.exports["memory"] instanceof WebAssembly.Memory)) {
+        throw new Error();
+      }
 
-    await start(instance);
+      const exitCode = await start(instance);
+      const stderrText = await new Blob(stderrChunks).text();
+      // Read before checking the exit code, so failures carry the log too.
+      const log = opts.log ? root.get(LOG_FILE) : undefined;
+      let diagnostics: Diagnostic[] | undefined;
+      if (log instanceof File) {
+        try {
+          diagnostics = parseLog(new TextDecoder().decode(log.data));
+        } catch (e) {
+          // A failed run may leave the log truncated; its error matters more.
+          if (exitCode === 0) {
+            throw e;
+          }
+          diagnostics = [];
+        }
+      }
+      if (exitCode !== 0) {
+        throw new PandocError(exitCode, stderrText, diagnostics);
+      }
+
+      const files: PandocFile[] = [];
+      for (const [path, file] of walk(root)) {
+        if (seeded.has(file) && !file.modified) {
+          continue;
+        }
+        if (file === log) {
+          continue;
+        }
+        files.push({ path, type: mimeType(path), data: file.data.slice() });
+      }
+
+      const output =
+        typeof opts.output !== "undefined"
+          ? splitPath(opts.output).join("/")
+          : undefined;
+      return {
+        exitCode,
+        stderr: stderrText,
+        files,
+        output: files.find(({ path }) => path === output),
+        diagnostics,
+      };
+    } finally {
+      forward?.releaseLock();
+    }
   };
 }
 
 if (import.meta.vitest) {
-  const fs = await import("node:fs/promises");
+  const { fetchWasm, testPandoc } = await import("../../test/pandoc");
 
   const { it, assert } = import.meta.vitest;
 
-  async function fetchWasm(): Promise<Response> {
-    const href = new URL(import.meta.resolve("wasm-pandoc/pandoc.wasm"));
-    const buf = await fs.readFile(href);
-    return new Response(buf, {
-      headers: {
-        "content-type": "application/wasm",
-      },
-    });
-  }
-
-  const pandoc = await newPandoc({ fetchWasm });
+  const pandoc = await testPandoc();
 
   it("ok", async () => {
     const stdin = new Blob(["Hello, World!"]).stream();
@@ -83,4 +326,362 @@ if (import.meta.vitest) {
 
     assert.equal(await new Blob(output).text(), "<p>Hello, World!</p>\n");
   });
+
+  it("runs without JSPI", async () => {
+    const sync = await newPandoc({ fetchWasm, jspi: false });
+    const output: Uint8Array<ArrayBuffer>[] = [];
+    const stdout = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        output.push(new Uint8Array(chunk));
+      },
+    });
+
+    await sync({
+      args: ["-fmarkdown", "-thtml"],
+      stdin: new Blob(["Hello, World!"]).stream(),
+      stdout,
+    });
+
+    assert.equal(await new Blob(output).text(), "<p>Hello, World!</p>\n");
+  });
+
+  it("rejects on failure", async () => {
+    try {
+      await pandoc({
+        args: ["-fnotaformat", "-thtml"],
+        stdin: new Blob(["Hello, World!"]).stream(),
+      });
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof PandocError)) {
+        throw e;
+      }
+      assert.equal(e.exitCode, 21);
+      assert.equal(e.kind, "UnknownReaderError");
+      assert.include(e.stderr, "notaformat");
+    }
+  });
+
+  it("passes environment variables", async () => {
+    const output: Uint8Array<ArrayBuffer>[] = [];
+    const stdout = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        output.push(new Uint8Array(chunk));
+      },
+    });
+
+    // pandoc looks up its user data directory under XDG_DATA_HOME.
+    await pandoc({
+      args: ["-fmarkdown", "-thtml5", "-s"],
+      stdin: new Blob(["Hello"]).stream(),
+      stdout,
+      files: {
+        "xdg/pandoc/templates/default.html5": new TextEncoder().encode(
+          "<main>$body$</main>",
+        ),
+      },
+      env: { XDG_DATA_HOME: "/xdg" },
+    });
+
+    assert.equal(await new Blob(output).text(), "<main><p>Hello</p></main>");
+  });
+
+  it("is reproducible with a seeded random source", async () => {
+    const run = () =>
+      pandoc({
+        args: ["-fmarkdown", "-tepub"],
+        stdin: new Blob(["# Hello, World!"]).stream(),
+        output: "out.epub",
+        env: { SOURCE_DATE_EPOCH: "0" },
+        random: seededRandom(1),
+      });
+
+    const [a, b] = [await run(), await run()];
+    assert.deepEqual(a.output?.data, b.output?.data);
+  });
+
+  it("traces syscalls", async () => {
+    const entries: TraceEntry[] = [];
+    await pandoc({
+      args: ["-fmarkdown", "-thtml", "in.md"],
+      files: { "in.md": new TextEncoder().encode("Hello, World!") },
+      trace: (entry) => entries.push(entry),
+    });
+
+    const open = entries.find(
+      ({ name, args }) => name === "path_open" && args["path"] === "in.md",
+    );
+    assert.equal(open?.errno, 0);
+    assert.equal(entries.at(-1)?.name, "proc_exit");
+  });
+
+  it("aborts", async () => {
+    const abort = new AbortController();
+    const stdin = new ReadableStream<Uint8Array>({
+      type: "bytes",
+      pull: () => {
+        abort.abort(new Error("aborted"));
+      },
+    });
+
+    try {
+      await pandoc({ args: ["-fmarkdown"], stdin, signal: abort.signal });
+      assert.fail();
+    } catch (e) {
+      assert.equal(e, abort.signal.reason);
+    }
+  });
+
+  it("times out", async () => {
+    // Never enqueues, so pandoc waits on stdin until the deadline.
+    const stdin = new ReadableStream<Uint8Array>({ type: "bytes" });
+
+    try {
+      await pandoc({ args: ["-fmarkdown"], stdin, timeout: 100 });
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof DOMException)) {
+        throw e;
+      }
+      assert.equal(e.name, "TimeoutError");
+    }
+  });
+
+  it("enforces memory limits", async () => {
+    try {
+      await pandoc({
+        args: ["-fmarkdown"],
+        stdin: new Blob(["Hello, World!"]).stream(),
+        maxMemory: 1024 * 1024,
+      });
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof OutOfMemoryError)) {
+        throw e;
+      }
+      assert.equal(e.limit, 1024 * 1024);
+    }
+  });
+
+  it("refetches a corrupted cache entry", async () => {
+    let fetches = 0;
+    const empty = new Uint8Array([
+      0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+    ]);
+    await newPandoc({
+      fetchWasm: async () => {
+        const body = new ReadableStream<Uint8Array>({
+          start: (controller) => {
+            controller.enqueue(empty);
+            if (fetches++ === 0) {
+              controller.error(new CorruptedCacheError());
+            } else {
+              controller.close();
+            }
+          },
+        });
+        return new Response(body, {
+          headers: { "content-type": "application/wasm" },
+        });
+      },
+    });
+    assert.equal(fetches, 2);
+  });
+
+  it("reads input files", async () => {
+    const output: Uint8Array<ArrayBuffer>[] = [];
+    const stdout = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        output.push(new Uint8Array(chunk));
+      },
+    });
+
+    await pandoc({
+      args: ["-fmarkdown", "-thtml", "a.md", "docs/b.md"],
+      files: {
+        "a.md": new TextEncoder().encode("Hello,"),
+        "docs/b.md": new TextEncoder().encode("World!"),
+      },
+      stdout,
+    });
+
+    assert.equal(
+      await new Blob(output).text(),
+      "<p>Hello,</p>\n<p>World!</p>\n",
+    );
+  });
+
+  it("mounts Lua filters", async () => {
+    const run = (name: string) =>
+      pandoc({
+        args: ["-fmarkdown", "-thtml"],
+        stdin: new Blob(["Hello"]).stream(),
+        luaFilters: [{ name, source: "function Str(el) return el end" }],
+      });
+
+    // The bundled pandoc is built without Lua.
+    try {
+      await run("noop.lua");
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof PandocError)) {
+        throw e;
+      }
+      assert.equal(e.kind, "NoScriptingEngine");
+    }
+
+    for (const name of ["../noop.lua", "a/noop.lua", "", ".", ".."]) {
+      try {
+        await run(name);
+        assert.fail();
+      } catch (e) {
+        assert.match(String(e), /Invalid Lua filter name/);
+      }
+    }
+  });
+
+  it("rejects Lua filters that collide with files", async () => {
+    const source = "function Str(el) return el end";
+    for (const opts of [
+      { files: { "./lua-filters/a.lua": new Uint8Array() } },
+      { luaFilters: [{ name: "a.lua", source }] },
+    ]) {
+      try {
+        await pandoc({
+          args: ["-fmarkdown", "-thtml"],
+          stdin: new Blob(["Hello"]).stream(),
+          ...opts,
+          luaFilters: [...(opts.luaFilters ?? []), { name: "a.lua", source }],
+        });
+        assert.fail();
+      } catch (e) {
+        assert.match(String(e), /collides with another file/);
+      }
+    }
+  });
+
+  it("uses templates", async () => {
+    const output: Uint8Array<ArrayBuffer>[] = [];
+    await pandoc({
+      args: [
+        "-fmarkdown",
+        "-thtml5",
+        "-s",
+        ...toArgs({ template: "/templates/shell.html" }),
+      ],
+      stdin: new Blob(["Hello"]).stream(),
+      stdout: new WritableStream<Uint8Array>({
+        write: (chunk) => {
+          output.push(new Uint8Array(chunk));
+        },
+      }),
+      files: {
+        "templates/shell.html": new TextEncoder().encode(
+          "<article>$body$</article>",
+        ),
+      },
+    });
+
+    assert.equal(
+      await new Blob(output).text(),
+      "<article><p>Hello</p></article>",
+    );
+  });
+
+  it("processes citations", async () => {
+    const output: Uint8Array<ArrayBuffer>[] = [];
+    await pandoc({
+      args: [
+        "-fmarkdown",
+        "-tplain",
+        ...toArgs({ citeproc: true, bibliography: ["refs/refs.bib"] }),
+      ],
+      stdin: new Blob(["See @knuth84."]).stream(),
+      stdout: new WritableStream<Uint8Array>({
+        write: (chunk) => {
+          output.push(new Uint8Array(chunk));
+        },
+      }),
+      files: {
+        "refs/refs.bib": new TextEncoder().encode(
+          "@book{knuth84, author = {Knuth, Donald E.}, title = {The TeXbook}, year = {1984}}",
+        ),
+      },
+    });
+
+    const text = await new Blob(output).text();
+    assert.include(text, "Knuth (1984)");
+    assert.include(text, "The TeXbook");
+  });
+
+  it("collects diagnostics", async () => {
+    const result = await pandoc({
+      args: ["-fmarkdown", "-thtml5"],
+      stdin: new Blob(["# A\n\n# A {#a}\n"]).stream(),
+      log: true,
+    });
+
+    assert.deepEqual(
+      result.diagnostics?.map(({ type, verbosity }) => [type, verbosity]),
+      [["DuplicateIdentifier", "WARNING"]],
+    );
+    assert.deepEqual(result.files, []);
+  });
+
+  it("attaches diagnostics to failures", async () => {
+    try {
+      await pandoc({
+        args: ["-fmarkdown", "-thtml5", "--fail-if-warnings"],
+        stdin: new Blob(["# A\n\n# A {#a}\n"]).stream(),
+        log: true,
+      });
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof PandocError)) {
+        throw e;
+      }
+      assert.equal(e.kind, "FailOnWarningError");
+      assert.deepEqual(
+        e.diagnostics?.map(({ type }) => type),
+        ["DuplicateIdentifier"],
+      );
+    }
+  });
+
+  it("fails with a malformed log", async () => {
+    try {
+      // Fails before pandoc writes the log over the one given.
+      await pandoc({
+        args: ["--no-such-option"],
+        files: { [LOG_FILE]: new TextEncoder().encode('[{"type":') },
+        log: true,
+      });
+      assert.fail();
+    } catch (e) {
+      if (!(e instanceof PandocError)) {
+        throw e;
+      }
+      assert.deepEqual(e.diagnostics, []);
+    }
+  });
+
+  it("writes output files", async () => {
+    const result = await pandoc({
+      args: ["-fmarkdown", "-tdocx"],
+      stdin: new Blob(["Hello, World!"]).stream(),
+      output: "out/hello.docx",
+    });
+
+    assert.equal(result.output?.path, "out/hello.docx");
+    assert.equal(
+      result.output?.type,
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    );
+    // A docx is a zip archive.
+    assert.deepEqual([...(result.output?.data.subarray(0, 2) ?? [])], [80, 75]);
+    assert.deepEqual(
+      result.files.map(({ path }) => path),
+      ["out/hello.docx"],
+    );
+  });
 }
@@ -0,0 +1,111 @@
+import * as z from "zod";
+
+export type Verbosity = "ERROR" | "WARNING" | "INFO" | "DEBUG";
+
+/** One entry of pandoc's `--log` output. */
+export type Diagnostic = {
+  /** e.g. `DuplicateIdentifier` or `CouldNotFetchResource` */
+  type: string;
+  verbosity: Verbosity;
+  /** Readable summary; the log itself carries no message text. */
+  message: string;
+  source?: string | undefined;
+  line?: number | undefined;
+  column?: number | undefined;
+  /** The remaining fields, as logged. */
+  details: Record<string, unknown>;
+};
+
+const zLogEntry = z.looseObject({
+  type: z.string(),
+  verbosity: z.enum(["ERROR", "WARNING", "INFO", "DEBUG"]),
+  source: z.string().optional(),
+  line: z.int().optional(),
+  column: z.int().optional(),
+});
+
+function humanize(type: string): string {
+  const words = type.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function describe(details: Record<string, unknown>): string {
+  return Object.values(details)
+    .filter((v) => (typeof v === "string" && v !== "") || typeof v === "number")
+    .join(", ");
+}
+
+/** Parses the JSON array written by `pandoc --log=FILE`. */
+export function parseLog(text: string): Diagnostic[] {
+  const entries = zLogEntry.array().parse(JSON.parse(text));
+  return entries.map(
+    ({ type, verbosity, source, line, column, ...details }) => {
+      const detail = describe(details);
+      return {
+        type,
+        verbosity,
+        message:
+          detail !== "" ? `${humanize(type)}: ${detail}` : humanize(type),
+        source: source !== "" ? source : undefined,
+        line,
+        column,
+        details,
+      };
+    },
+  );
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("parseLog", () => {
+    const log = JSON.stringify([
+      {
+        type: "DuplicateIdentifier",
+        verbosity: "WARNING",
+        contents: "a",
+        source: "",
+        line: 5,
+        column: 1,
+      },
+      { type: "NoLangSpecified", verbosity: "INFO" },
+      {
+        type: "CouldNotFetchResource",
+        verbosity: "WARNING",
+        message: "",
+        resource: "missing.png",
+      },
+    ]);
+
+    assert.deepEqual(parseLog(log), [
+      {
+        type: "DuplicateIdentifier",
+        verbosity: "WARNING",
+        message: "Duplicate identifier: a",
+        source: undefined,
+        line: 5,
+        column: 1,
+        details: { contents: "a" },
+      },
+      {
+        type: "NoLangSpecified",
+        verbosity: "INFO",
+        message: "No lang specified",
+        source: undefined,
+        line: undefined,
+        column: undefined,
+        details: {},
+      },
+      {
+        type: "CouldNotFetchResource",
+        verbosity: "WARNING",
+        message: "Could not fetch resource: missing.png",
+        source: undefined,
+        line: undefined,
+        column: undefined,
+        details: { message: "", resource: "missing.png" },
+      },
+    ]);
+    assert.throws(() => parseLog('[{"type": "X"}]'));
+  });
+}
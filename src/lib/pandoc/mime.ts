@@ -0,0 +1,50 @@
+const types: Record<string, string> = {
+  css: "text/css",
+  csv: "text/csv",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  epub: "application/epub+zip",
+  gif: "image/gif",
+  htm: "text/html",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  js: "text/javascript",
+  json: "application/json",
+  md: "text/markdown",
+  odt: "application/vnd.oasis.opendocument.text",
+  pdf: "application/pdf",
+  png: "image/png",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  rtf: "application/rtf",
+  svg: "image/svg+xml",
+  tex: "application/x-tex",
+  txt: "text/plain",
+  typ: "text/x-typst",
+  webp: "image/webp",
+  xhtml: "application/xhtml+xml",
+  xml: "application/xml",
+};
+
+export function mimeType(path: string): string {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  if (dot < 1) {
+    return "application/octet-stream";
+  }
+
+  return types[name.slice(dot + 1).toLowerCase()] ?? "application/octet-stream";
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("mimeType", () => {
+    assert.equal(
+      mimeType("out/report.DOCX"),
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    );
+    assert.equal(mimeType("index.html"), "text/html");
+    assert.equal(mimeType(".hidden"), "application/octet-stream");
+    assert.equal(mimeType("dir.x/README"), "application/octet-stream");
+  });
+}
@@ -0,0 +1,400 @@
+/**
+ * Decides which pandoc arguments a shared link may pass.
+ *
+ * Links are crafted by anyone, so options that insert raw markup or scripts
+ * into the output need the viewer's confirmation, and options that make no
+ * sense in the browser, or touch files and programs, are refused.
+ */
+
+import type { ParsedArg } from "./argv";
+import { arities, expandOption, parseArgs } from "./argv";
+
+export type Verdict = "safe" | "confirm" | "forbidden";
+
+export type Finding = {
+  /** In the long form, e.g. `--include-in-header=header.html`. */
+  arg: string;
+  verdict: Exclude<Verdict, "safe">;
+  reason: string;
+};
+
+export type PolicyResult = {
+  /** The strictest verdict of `findings`. */
+  verdict: Verdict;
+  findings: Finding[];
+};
+
+type Check = (value: string | undefined) => [Verdict, string?];
+
+const safe: Check = () => ["safe"];
+const confirm =
+  (reason: string): Check =>
+  () => ["confirm", reason];
+const forbidden =
+  (reason: string): Check =>
+  () => ["forbidden", reason];
+
+// Inserted into the output verbatim, or loaded as scripts and stylesheets.
+const rawFields = new Set([
+  "header-includes",
+  "include-before",
+  "include-after",
+  "css",
+  "revealjs-url",
+  "slidy-url",
+  "s5-url",
+  "mathjaxurl",
+]);
+
+// Values the presets of the home page use.
+const trustedFields: Record<string, string[]> = {
+  "revealjs-url": ["https://unpkg.com/reveal.js@^5"],
+};
+
+/** `-V` and `-M`; template variables are not escaped. */
+const checkField: Check = (value = "") => {
+  const i = value.search(/[=:]/);
+  const [key, v] =
+    i < 0 ? [value, ""] : [value.slice(0, i), value.slice(i + 1)];
+  if (trustedFields[key]?.includes(v)) {
+    return ["safe"];
+  }
+  if (rawFields.has(key)) {
+    return ["confirm", `${key} is inserted into the output as it is`];
+  }
+  if (/[<>"'&]/.test(v)) {
+    return ["confirm", "Contains markup"];
+  }
+  return ["safe"];
+};
+
+const base = new URL("https://base.invalid/");
+
+/** Whether `value` loads from another origin, as `//host/x` also does. */
+function isRemote(value: string): boolean {
+  return (
+    !URL.canParse(value, base) || new URL(value, base).origin !== base.origin
+  );
+}
+
+const checkUrl =
+  (reason: string): Check =>
+  (value) =>
+    typeof value !== "undefined" && isRemote(value)
+      ? ["confirm", reason]
+      : ["safe"];
+
+const notConverting = forbidden("Does not convert a document");
+
+const checks: Record<string, Check> = {
+  from: safe,
+  read: safe,
+  to: safe,
+  write: safe,
+  standalone: safe,
+  "title-prefix": safe,
+  variable: checkField,
+  metadata: checkField,
+  toc: safe,
+  "table-of-contents": safe,
+  "toc-depth": safe,
+  lof: safe,
+  lot: safe,
+  "number-sections": safe,
+  "number-offset": safe,
+  "shift-heading-level-by": safe,
+  "top-level-division": safe,
+  "slide-level": safe,
+  "section-divs": safe,
+  incremental: safe,
+  wrap: safe,
+  columns: safe,
+  "tab-stop": safe,
+  "preserve-tabs": safe,
+  eol: safe,
+  "id-prefix": safe,
+  "strip-comments": safe,
+  ascii: safe,
+  "reference-links": safe,
+  "reference-location": safe,
+  "markdown-headings": safe,
+  "list-tables": safe,
+  "link-images": safe,
+  "html-q-tags": safe,
+  "email-obfuscation": safe,
+  "default-image-extension": safe,
+  "file-scope": safe,
+  "track-changes": safe,
+  "highlight-style": safe,
+  "no-highlight": safe,
+  "indented-code-classes": safe,
+  "split-level": safe,
+  "chunk-template": safe,
+  "figure-caption-position": safe,
+  "table-caption-position": safe,
+  listings: safe,
+  abbreviations: safe,
+  trace: safe,
+  "ipynb-output": safe,
+  dpi: safe,
+  "embed-resources": safe,
+  "self-contained": safe,
+  "resource-path": safe,
+  citeproc: safe,
+  bibliography: safe,
+  csl: safe,
+  "citation-abbreviations": safe,
+  natbib: safe,
+  biblatex: safe,
+  "reference-doc": safe,
+  "epub-subdirectory": safe,
+  "epub-cover-image": safe,
+  "epub-title-page": safe,
+  "epub-embed-font": safe,
+  mathml: safe,
+  gladtex: safe,
+  mathjax: checkUrl("Loads a script"),
+  katex: checkUrl("Loads a script"),
+  webtex: checkUrl("Loads images"),
+  css: checkUrl("Loads a stylesheet"),
+  template: confirm("A template controls the whole output"),
+  "include-in-header": confirm("Inserts a file into the output as it is"),
+  "include-before-body": confirm("Inserts a file into the output as it is"),
+  "include-after-body": confirm("Inserts a file into the output as it is"),
+  "metadata-file": confirm("May set header-includes"),
+  "epub-metadata": confirm("Inserts a file into the output as it is"),
+  "syntax-definition": safe,
+  "lua-filter": confirm("Runs a Lua script"),
+  filter: forbidden("Runs a program"),
+  "pdf-engine": forbidden("Runs a program"),
+  "pdf-engine-opt": forbidden("Runs a program"),
+  output: forbidden("The viewer sets the output"),
+  "extract-media": forbidden("Writes files"),
+  log: forbidden("The viewer sets the log"),
+  "data-dir": forbidden("Reads pandoc's data"),
+  defaults: forbidden("Reads more options"),
+  "request-header": forbidden("Sent with network requests"),
+  "no-check-certificate": forbidden("Trusts any server"),
+  "fail-if-warnings": safe,
+  verbose: safe,
+  quiet: safe,
+  sandbox: safe,
+  "print-default-template": notConverting,
+  "print-default-data-file": notConverting,
+  "print-highlight-style": notConverting,
+  "list-input-formats": notConverting,
+  "list-output-formats": notConverting,
+  "list-extensions": notConverting,
+  "list-highlight-languages": notConverting,
+  "list-highlight-styles": notConverting,
+  version: notConverting,
+  help: notConverting,
+};
+
+function display(parsed: ParsedArg): string {
+  if ("input" in parsed) {
+    return parsed.input;
+  }
+  const { option, value } = parsed;
+  return typeof value !== "undefined" ? `--${option}=${value}` : `--${option}`;
+}
+
+/** Classifies every argument of `args`; throws like `parseArgs`. */
+export function checkArgs(args: string[]): PolicyResult {
+  const findings: Finding[] = [];
+
+  for (const parsed of parseArgs(args)) {
+    let verdict: Verdict;
+    let reason: string | undefined;
+    if ("input" in parsed) {
+      [verdict, reason] = ["forbidden", "The viewer provides the input"];
+    } else {
+      const check = checks[parsed.option];
+      [verdict, reason] =
+        typeof check !== "undefined"
+          ? check(parsed.value)
+          : expandOption(parsed.option).length > 1
+            ? ["forbidden", "Ambiguous option"]
+            : ["confirm", "Unknown option"];
+    }
+
+    if (verdict !== "safe") {
+      findings.push({ arg: display(parsed), verdict, reason: reason ?? "" });
+    }
+  }
+
+  const verdict = findings.some(({ verdict }) => verdict === "forbidden")
+    ? "forbidden"
+    : findings.length > 0
+      ? "confirm"
+      : "safe";
+  return { verdict, findings };
+}
+
+export class PolicyError extends Error {
+  #verdict: Exclude<Verdict, "safe">;
+  #findings: Finding[];
+
+  constructor(verdict: Exclude<Verdict, "safe">, findings: Finding[]) {
+    super(
+      verdict === "forbidden"
+        ? "The link passes options that are not allowed."
+        : "The link passes options that need confirmation.",
+    );
+    this.name = "PolicyError";
+    this.#verdict = verdict;
+    this.#findings = findings;
+  }
+
+  get verdict(): Exclude<Verdict, "safe"> {
+    return this.#verdict;
+  }
+
+  get findings(): Finding[] {
+    return this.#findings;
+  }
+}
+
+/**
+ * Throws `PolicyError` unless `args` are safe, or need confirmation and
+ * `confirmed` is set.
+ */
+export function enforcePolicy(
+  args: string[],
+  { confirmed = false }: { confirmed?: boolean | undefined } = {},
+): void {
+  const { verdict, findings } = checkArgs(args);
+  if (verdict === "forbidden" || (verdict === "confirm" && !confirmed)) {
+    throw new PolicyError(verdict, findings);
+  }
+}
+
+if (import.meta.vitest) {
+  const { describe, it, assert } = import.meta.vitest;
+
+  describe("checkArgs", () => {
+    it("safe", () => {
+      assert.deepEqual(
+        checkArgs([
+          "-fmarkdown+smart",
+          "-trevealjs",
+          "-s",
+          "-Vrevealjs-url=https://unpkg.com/reveal.js@^5",
+          "-Vlang=en",
+          "-Mtitle:Notes",
+          "--slide-level=3",
+          "--toc",
+          "-cstyle.css",
+          "--citeproc",
+          "--bibliography=/citeproc/0-refs.bib",
+          "--embed-resources",
+          "--mathjax",
+        ]),
+        { verdict: "safe", findings: [] },
+      );
+    });
+
+    it("needs confirmation", () => {
+      const { verdict, findings } = checkArgs([
+        "-thtml5",
+        "-Hheader.html",
+        "--lua-filter",
+        "x.lua",
+        "-Vheader-includes=<script>alert(1)</script>",
+        "-Mpagetitle=<img src=x onerror=alert(1)>",
+        "-Vrevealjs-url=https://evil.example.com/",
+        "-chttps://evil.example.com/style.css",
+        "--mathjax=https://evil.example.com/mathjax.js",
+        "--template=/templates/0-shell.html",
+        "-c//evil.example.com/x.css",
+        "--katex=//evil.example.com/",
+        "--no-such-option",
+      ]);
+
+      assert.equal(verdict, "confirm");
+      assert.deepEqual(
+        findings.map(({ arg }) => arg),
+        [
+          "--include-in-header=header.html",
+          "--lua-filter=x.lua",
+          "--variable=header-includes=<script>alert(1)</script>",
+          "--metadata=pagetitle=<img src=x onerror=alert(1)>",
+          "--variable=revealjs-url=https://evil.example.com/",
+          "--css=https://evil.example.com/style.css",
+          "--mathjax=https://evil.example.com/mathjax.js",
+          "--template=/templates/0-shell.html",
+          "--css=//evil.example.com/x.css",
+          "--katex=//evil.example.com/",
+          "--no-such-option",
+        ],
+      );
+    });
+
+    it("forbidden", () => {
+      const { verdict, findings } = checkArgs([
+        "-fmarkdown",
+        "-o/out/x.html",
+        "--filter=pandoc-crossref",
+        "--defaults",
+        "evil.yaml",
+        "-Lx.lua",
+        "/etc/passwd",
+      ]);
+
+      assert.equal(verdict, "forbidden");
+      assert.deepEqual(
+        findings.map(({ arg, verdict }) => [arg, verdict]),
+        [
+          ["--output=/out/x.html", "forbidden"],
+          ["--filter=pandoc-crossref", "forbidden"],
+          ["--defaults=evil.yaml", "forbidden"],
+          ["--lua-filter=x.lua", "confirm"],
+          ["/etc/passwd", "forbidden"],
+        ],
+      );
+    });
+
+    it("knows every option", () => {
+      for (const option of Object.keys(arities)) {
+        const { findings } = checkArgs([`--${option}=x`]);
+        assert.notInclude(
+          findings.map(({ reason }) => reason),
+          "Unknown option",
+          option,
+        );
+      }
+    });
+
+    it("expands prefixes", () => {
+      const { verdict, findings } = checkArgs([
+        "--filt=x.lua",
+        "--defaul=d.yaml",
+        "--outp=/x",
+        "--lua-f=x.lua",
+      ]);
+
+      assert.equal(verdict, "forbidden");
+      assert.deepEqual(
+        findings.map(({ arg, verdict }) => [arg, verdict]),
+        [
+          ["--filter=x.lua", "forbidden"],
+          ["--defaul=d.yaml", "forbidden"],
+          ["--output=/x", "forbidden"],
+          ["--lua-filter=x.lua", "confirm"],
+        ],
+      );
+    });
+  });
+
+  describe("enforcePolicy", () => {
+    it("throws unless confirmed", () => {
+      const args = ["-thtml5", "-Vheader-includes=<style></style>"];
+      assert.throws(() => enforcePolicy(args), PolicyError);
+      assert.doesNotThrow(() => enforcePolicy(args, { confirmed: true }));
+      assert.throws(
+        () => enforcePolicy(["--filter=x"], { confirmed: true }),
+        PolicyError,
+      );
+    });
+  });
+}
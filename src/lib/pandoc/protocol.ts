@@ -0,0 +1,102 @@
+import { OutOfMemoryError, PandocError } from "./error";
+import type { NewPandocOpts, PandocOpts, PandocResult } from "./index";
+import type { Diagnostic } from "./log";
+import type { TraceEntry } from "./trace";
+
+/** `NewPandocOpts` that survive `postMessage()`. */
+export type WorkerNewPandocOpts = Omit<NewPandocOpts, "fetchWasm">;
+
+/** `PandocOpts` that survive `postMessage()`; the rest is proxied. */
+export type WorkerPandocOpts = Omit<PandocOpts, "signal" | "trace" | "random">;
+
+export type SerializedError =
+  | {
+      type: "PandocError";
+      exitCode: number;
+      stderr: string;
+      diagnostics?: Diagnostic[] | undefined;
+    }
+  | { type: "OutOfMemoryError"; limit: number }
+  | { type: "other"; error: unknown };
+
+export type Request =
+  | { type: "init"; opts: WorkerNewPandocOpts }
+  | { type: "run"; id: number; opts: WorkerPandocOpts; trace: boolean }
+  | { type: "abort"; id: number; reason: unknown };
+
+export type Response =
+  | { type: "ready" }
+  | { type: "init-error"; error: SerializedError }
+  | { type: "trace"; id: number; entry: TraceEntry }
+  | { type: "result"; id: number; result: PandocResult }
+  | { type: "error"; id: number; error: SerializedError };
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof PandocError) {
+    return {
+      type: "PandocError",
+      exitCode: error.exitCode,
+      stderr: error.stderr,
+      diagnostics: error.diagnostics,
+    };
+  }
+  if (error instanceof OutOfMemoryError) {
+    return { type: "OutOfMemoryError", limit: error.limit };
+  }
+
+  try {
+    structuredClone(error);
+    return { type: "other", error };
+  } catch {
+    return { type: "other", error: new Error(String(error)) };
+  }
+}
+
+export function deserializeError(error: SerializedError): unknown {
+  switch (error.type) {
+    case "PandocError":
+      return new PandocError(error.exitCode, error.stderr, error.diagnostics);
+
+    case "OutOfMemoryError":
+      return new OutOfMemoryError(error.limit);
+
+    case "other":
+      return error.error;
+  }
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("serializeError | deserializeError", () => {
+    const roundtrip = (error: unknown) =>
+      deserializeError(structuredClone(serializeError(error)));
+
+    const diagnostics = [
+      {
+        type: "CouldNotFetchResource",
+        verbosity: "WARNING" as const,
+        message: "Could not fetch resource: a.png",
+        details: { resource: "a.png" },
+      },
+    ];
+    const pandocError = roundtrip(
+      new PandocError(64, "Parse error", diagnostics),
+    );
+    assert.equal(
+      pandocError instanceof PandocError && pandocError.exitCode,
+      64,
+    );
+    assert.deepEqual(
+      pandocError instanceof PandocError && pandocError.diagnostics,
+      diagnostics,
+    );
+
+    assert.equal(
+      roundtrip(new OutOfMemoryError(1)) instanceof OutOfMemoryError,
+      true,
+    );
+    assert.equal(roundtrip(new TypeError("oops")) instanceof TypeError, true);
+    assert.equal(roundtrip(() => {}) instanceof Error, true);
+  });
+}
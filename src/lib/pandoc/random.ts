@@ -0,0 +1,45 @@
+export type RandomSource = (buf: Uint8Array) => void;
+
+// crypto.getRandomValues() refuses more than 65536 bytes at once.
+const MAX_RANDOM_BYTES = 65536;
+
+export const cryptoRandom: RandomSource = (buf) => {
+  for (let i = 0; i < buf.length; i += MAX_RANDOM_BYTES) {
+    crypto.getRandomValues(buf.subarray(i, i + MAX_RANDOM_BYTES));
+  }
+};
+
+/** Deterministic, non-cryptographic source (mulberry32) for reproducible runs. */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return (buf) => {
+    for (let i = 0; i < buf.length; i++) {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      buf[i] = (t ^ (t >>> 14)) & 0xff;
+    }
+  };
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("seededRandom", () => {
+    const a = new Uint8Array(16);
+    const b = new Uint8Array(16);
+    seededRandom(42)(a);
+    seededRandom(42)(b);
+
+    assert.deepEqual(a, b);
+    assert.notDeepEqual(a, new Uint8Array(16));
+  });
+
+  it("cryptoRandom", () => {
+    const buf = new Uint8Array(MAX_RANDOM_BYTES * 2 + 64);
+    cryptoRandom(buf);
+
+    assert.notDeepEqual(buf.subarray(-64), new Uint8Array(64));
+  });
+}
@@ -0,0 +1,155 @@
+import type { Pandoc, PandocResult } from "./index";
+import type {
+  Request,
+  Response,
+  SerializedError,
+  WorkerNewPandocOpts,
+} from "./protocol";
+import { deserializeError } from "./protocol";
+import type { Trace } from "./trace";
+
+export type NewWorkerPandocOpts = WorkerNewPandocOpts & {
+  newWorker?: () => Worker;
+};
+
+export type WorkerPandoc = Pandoc & {
+  /** Stops the worker; pending and later runs reject. */
+  terminate: () => void;
+};
+
+type Pending = {
+  resolve: (result: PandocResult) => void;
+  reject: (reason: unknown) => void;
+  trace?: Trace | undefined;
+};
+
+function defaultNewWorker(): Worker {
+  return new Worker(new URL("./worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+/**
+ * Whether streams can be transferred to a worker, which `newWorkerPandoc()`
+ * relies on; Safari cannot.
+ */
+export function canTransferStreams(): boolean {
+  try {
+    const stream = new ReadableStream();
+    structuredClone(stream, { transfer: [stream] });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Like `newPandoc()`, but compiles and runs pandoc in a dedicated worker.
+ *
+ * Streams are transferred to the worker, and `signal` and `trace` are proxied.
+ * `random` cannot cross the boundary and is rejected.
+ */
+export async function newWorkerPandoc({
+  newWorker = defaultNewWorker,
+  ...opts
+}: NewWorkerPandocOpts): Promise<WorkerPandoc> {
+  const worker = newWorker();
+  const pending = new Map<number, Pending>();
+  let nextId = 0;
+  let terminated = false;
+
+  const settle = (id: number): Pending | undefined => {
+    const p = pending.get(id);
+    pending.delete(id);
+    return p;
+  };
+
+  const post = (message: Request, transfer: Transferable[] = []): void => {
+    worker.postMessage(message, { transfer });
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const fail = (error: unknown): void => {
+      reject(error);
+      for (const id of [...pending.keys()]) {
+        settle(id)?.reject(error);
+      }
+    };
+
+    worker.addEventListener("message", (event: MessageEvent<Response>) => {
+      const response = event.data;
+      switch (response.type) {
+        case "ready":
+          resolve();
+          break;
+
+        case "init-error":
+          worker.terminate();
+          reject(deserializeError(response.error));
+          break;
+
+        case "trace":
+          pending.get(response.id)?.trace?.(response.entry);
+          break;
+
+        case "result":
+          settle(response.id)?.resolve(response.result);
+          break;
+
+        case "error":
+          settle(response.id)?.reject(
+            deserializeError(response.error satisfies SerializedError),
+          );
+          break;
+      }
+    });
+    worker.addEventListener("error", (event) => {
+      fail(new Error(event.message));
+    });
+
+    post({ type: "init", opts });
+  });
+
+  const pandoc: Pandoc = ({ signal, trace, random, ...opts }) =>
+    new Promise((resolve, reject) => {
+      if (typeof random !== "undefined") {
+        throw new Error("random is not supported in a worker.");
+      }
+      if (terminated) {
+        throw new Error("The worker is terminated.");
+      }
+      signal?.throwIfAborted();
+
+      const id = nextId++;
+      const abort = () => post({ type: "abort", id, reason: signal?.reason });
+      signal?.addEventListener("abort", abort, { once: true });
+      pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", abort);
+          resolve(result);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", abort);
+          reject(reason);
+        },
+        trace,
+      });
+
+      post(
+        { type: "run", id, opts, trace: typeof trace !== "undefined" },
+        [opts.stdin, opts.stdout, opts.stderr].filter(
+          (v) => typeof v !== "undefined",
+        ),
+      );
+    });
+
+  return Object.assign(pandoc, {
+    terminate: () => {
+      terminated = true;
+      worker.terminate();
+      for (const id of [...pending.keys()]) {
+        settle(id)?.reject(new Error("The worker is terminated."));
+      }
+    },
+  });
+}
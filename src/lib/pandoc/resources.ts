@@ -0,0 +1,368 @@
+import type { Document } from "./ast";
+import { flagValue, formatArgs, parseArgs } from "./argv";
+import { binaryExtension } from "./convert";
+import { walkAst, withFilters } from "./filter";
+import type { Pandoc } from "./index";
+import type { Diagnostic } from "./log";
+
+const RESOURCE_DIR = "resources";
+
+export type FetchResource = (href: URL) => Promise<Uint8Array>;
+
+export type WithResourcesOpts = {
+  /** URL of the source; relative references are resolved against it. */
+  base: URL;
+  fetchResource?: FetchResource | undefined;
+};
+
+async function fetchResourceDefault(href: URL): Promise<Uint8Array> {
+  const response = await fetch(href);
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${href.href}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// <img src>, <script src>, <link href>, <source src> ... in raw HTML.
+const rawHtmlRef =
+  /(<(?:img|script|link|source|video|audio)\b[^>]*?\b(?:src|href)\s*=\s*)(["'])(.*?)\2/gi;
+
+/**
+ * Resolves `ref` against `base`; `undefined` for references that need no
+ * fetching, such as fragments and `data:` URLs.
+ */
+function resolve(ref: string, base: URL): URL | undefined {
+  if (ref === "" || ref.startsWith("#")) {
+    return undefined;
+  }
+
+  if (!URL.canParse(ref, base)) {
+    return undefined;
+  }
+  const href = new URL(ref, base);
+  if (href.protocol !== "http:" && href.protocol !== "https:") {
+    return undefined;
+  }
+  return href;
+}
+
+/** Rewrites every image, stylesheet and script reference of `doc`. */
+export function mapResources(
+  doc: Document,
+  fn: (ref: string) => string,
+): Document {
+  const html = (text: string) =>
+    text.replace(
+      rawHtmlRef,
+      (_, prefix: string, quote: string, ref: string) =>
+        `${prefix}${quote}${fn(ref)}${quote}`,
+    );
+
+  return walkAst(doc, {
+    Image: ({ t, c: [attr, inlines, [url, title]] }) => ({
+      t,
+      c: [attr, inlines, [fn(url), title]],
+    }),
+    RawInline: ({ t, c: [format, text] }) =>
+      format === "html" ? { t, c: [format, html(text)] } : undefined,
+    RawBlock: ({ t, c: [format, text] }) =>
+      format === "html" ? { t, c: [format, html(text)] } : undefined,
+  });
+}
+
+/** Collects the distinct references of `doc` that resolve against `base`. */
+export function listResources(doc: Document, base: URL): URL[] {
+  const found = new Map<string, URL>();
+  mapResources(doc, (ref) => {
+    const href = resolve(ref, base);
+    if (typeof href !== "undefined") {
+      found.set(href.href, href);
+    }
+    return ref;
+  });
+  return [...found.values()];
+}
+
+function mountPath(href: URL, index: number): string {
+  const basename = href.pathname
+    .split("/")
+    .filter((v) => v !== "")
+    .pop();
+  return `${RESOURCE_DIR}/${index}-${(basename ?? "resource").replace(/[^\w.-]/g, "_")}`;
+}
+
+/**
+ * Wraps `pandoc` so that images, stylesheets and scripts are resolved
+ * against `base`, since the output is viewed from a `blob:` URL.
+ *
+ * With `--embed-resources` they are fetched here and mounted for pandoc,
+ * which cannot reach the network itself, so the output is self-contained.
+ * References that fail to fetch are left absolute and, with
+ * `PandocOpts.log`, reported as `CouldNotFetchResource` diagnostics.
+ * `url()`s inside stylesheets are not followed.
+ *
+ * Rewriting takes a second pandoc run, so binary output, which is
+ * downloaded rather than viewed, is left alone unless it embeds resources.
+ * Other arguments are passed through as they are.
+ */
+export function withResources(
+  pandoc: Pandoc,
+  { base, fetchResource = fetchResourceDefault }: WithResourcesOpts,
+): Pandoc {
+  return async (opts) => {
+    const parsed = parseArgs(opts.args ?? []);
+    let embedResources = false;
+    for (const v of parsed) {
+      if (
+        "option" in v &&
+        (v.option === "embed-resources" || v.option === "self-contained")
+      ) {
+        embedResources = flagValue(v.value, v.arg);
+      }
+    }
+    if (
+      !embedResources &&
+      typeof binaryExtension(parsed, opts.output) !== "undefined"
+    ) {
+      return await pandoc(opts);
+    }
+
+    const files: Record<string, Uint8Array> = { ...opts.files };
+    const mounted = new Map<string, string>();
+    const failed: Diagnostic[] = [];
+    let count = 0;
+
+    const embed = async (hrefs: URL[]) => {
+      opts.signal?.throwIfAborted();
+      await Promise.all(
+        hrefs
+          .filter(({ href }) => !mounted.has(href))
+          .map(async (href) => {
+            const path = mountPath(href, count++);
+            try {
+              files[path] = await fetchResource(href);
+              mounted.set(href.href, path);
+            } catch (e) {
+              failed.push({
+                type: "CouldNotFetchResource",
+                verbosity: "WARNING",
+                message: `Could not fetch resource: ${href.href}`,
+                details: { resource: href.href, message: String(e) },
+              });
+            }
+          }),
+      );
+    };
+
+    const localize = (ref: string) => {
+      const href = resolve(ref, base);
+      if (typeof href === "undefined") {
+        return ref;
+      }
+      return mounted.get(href.href) ?? href.href;
+    };
+
+    const css = parsed.flatMap((v) =>
+      "option" in v && v.option === "css" ? [v.value ?? ""] : [],
+    );
+    if (embedResources) {
+      await embed(
+        css
+          .map((ref) => resolve(ref, base))
+          .filter((v) => typeof v !== "undefined"),
+      );
+    }
+
+    const filtered = withFilters(pandoc, [
+      async (doc) => {
+        if (embedResources) {
+          await embed(listResources(doc, base));
+        }
+        return mapResources(doc, localize);
+      },
+    ]);
+    // `files` is read again by the rendering run, after the filter mounted
+    // what it fetched.
+    const result = await filtered({
+      ...opts,
+      args:
+        css.length > 0
+          ? formatArgs(
+              parsed.map((v) =>
+                "option" in v && v.option === "css"
+                  ? { ...v, value: localize(v.value ?? "") }
+                  : v,
+              ),
+            )
+          : opts.args,
+      files,
+    });
+    if (!opts.log) {
+      return result;
+    }
+    // pandoc fails to fetch them in turn, and names them `path`.
+    const reported = new Set(failed.map(({ details }) => details["resource"]));
+    return {
+      ...result,
+      diagnostics: [
+        ...failed,
+        ...(result.diagnostics ?? []).filter(
+          ({ type, details }) =>
+            type !== "CouldNotFetchResource" ||
+            !reported.has(details["resource"] ?? details["path"]),
+        ),
+      ],
+    };
+  };
+}
+
+if (import.meta.vitest) {
+  const { document } = await import("./ast");
+  const { testPandoc } = await import("../../test/pandoc");
+
+  const { describe, it, assert } = import.meta.vitest;
+
+  const pandoc = await testPandoc();
+
+  const base = new URL("https://example.com/docs/index.md");
+
+  describe("listResources", () => {
+    it("finds images and raw HTML references", () => {
+      const doc = document([
+        {
+          t: "Para",
+          c: [
+            {
+              t: "Image",
+              c: [["", [], []], [], ["img/a.png", ""]],
+            },
+            {
+              t: "Image",
+              c: [["", [], []], [], ["data:image/png;base64,AA==", ""]],
+            },
+            {
+              t: "RawInline",
+              c: ["html", `<img alt="x" src='/b.svg'>`],
+            },
+          ],
+        },
+        {
+          t: "RawBlock",
+          c: [
+            "html",
+            '<script src="https://cdn.example.org/c.js"></script>\n<a href="d.html">d</a>',
+          ],
+        },
+        { t: "RawBlock", c: ["latex", '<img src="e.png">'] },
+      ]);
+
+      assert.deepEqual(
+        listResources(doc, base).map(({ href }) => href),
+        [
+          "https://example.com/docs/img/a.png",
+          "https://example.com/b.svg",
+          "https://cdn.example.org/c.js",
+        ],
+      );
+    });
+  });
+
+  describe("withResources", () => {
+    // 1x1 transparent GIF
+    const gif = Uint8Array.from(
+      atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+      (c) => c.charCodeAt(0),
+    );
+
+    const run = async (pandoc: Pandoc, args: string[], log = false) => {
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
+      const { diagnostics } = await pandoc({
+        args,
+        log,
+        stdin: new Blob([
+          "![dot](img/dot.gif)\n\n![missing](none.gif)",
+        ]).stream(),
+        stdout: new WritableStream<Uint8Array>({
+          write: (chunk) => {
+            chunks.push(new Uint8Array(chunk));
+          },
+        }),
+      });
+      return { html: await new Blob(chunks).text(), diagnostics };
+    };
+
+    const fetched: string[] = [];
+    const fetchResource: FetchResource = async (href) => {
+      fetched.push(href.href);
+      if (href.pathname.endsWith("/dot.gif")) {
+        return gif;
+      }
+      if (href.pathname.endsWith("/style.css")) {
+        return new TextEncoder().encode("p { color: red; }");
+      }
+      throw new Error("404");
+    };
+
+    it("resolves references against the source", async () => {
+      const { html } = await run(
+        withResources(pandoc, { base, fetchResource }),
+        ["-fmarkdown", "-thtml5"],
+      );
+
+      assert.include(html, 'src="https://example.com/docs/img/dot.gif"');
+      assert.deepEqual(fetched, []);
+    });
+
+    it("passes other arguments through", async () => {
+      const { html } = await run(
+        withResources(pandoc, { base, fetchResource }),
+        ["-fmarkdown", "-thtml5", "-s", "-Ttest", "-cstyle.css", "--mathjax"],
+      );
+
+      assert.include(html, 'href="https://example.com/docs/style.css"');
+      assert.include(html, 'src="https://example.com/docs/img/dot.gif"');
+    });
+
+    it("leaves binary output alone", async () => {
+      let runs = 0;
+      const counted: Pandoc = async (opts) => {
+        runs++;
+        return await pandoc(opts);
+      };
+      const { output } = await withResources(counted, { base, fetchResource })({
+        args: ["-fmarkdown", "-tdocx"],
+        stdin: new Blob(["![dot](img/dot.gif)"]).stream(),
+        output: "out.docx",
+      });
+
+      assert.equal(runs, 1);
+      assert.equal(output?.path, "out.docx");
+    });
+
+    it("embeds resources", async () => {
+      const { html, diagnostics } = await run(
+        withResources(pandoc, { base, fetchResource }),
+        [
+          "-fmarkdown",
+          "-thtml5",
+          "-s",
+          "-Ttest",
+          "-cstyle.css",
+          "--embed-resources",
+        ],
+        true,
+      );
+
+      assert.include(html, "data:image/gif;base64,");
+      assert.include(html, "p { color: red; }");
+      assert.include(html, 'src="https://example.com/docs/none.gif"');
+      assert.notInclude(html, "img/dot.gif");
+      assert.deepEqual(
+        (diagnostics ?? [])
+          .filter(({ type }) => type === "CouldNotFetchResource")
+          .map(({ message }) => message),
+        ["Could not fetch resource: https://example.com/docs/none.gif"],
+      );
+    });
+  });
+}
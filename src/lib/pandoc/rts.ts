@@ -0,0 +1,56 @@
+/** Bytes, or a GHC size with a `k`, `m` or `g` suffix. */
+export type Size = number | `${number}${"k" | "m" | "g"}`;
+
+export type RtsOpts = {
+  /** Suggested heap size, `-H`. */
+  initialHeap?: Size | undefined;
+  /** Maximum heap size, `-M`. */
+  maxHeap?: Size | undefined;
+  /** Maximum stack size of a thread, `-K`. */
+  stackSize?: Size | undefined;
+};
+
+export const defaultRtsOpts: RtsOpts = {
+  initialHeap: "64m",
+};
+
+function formatSize(size: Size): string {
+  if (typeof size === "number" && !(Number.isSafeInteger(size) && size > 0)) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+  return `${size}`;
+}
+
+export function rtsArgs(opts: RtsOpts): string[] {
+  const args: string[] = [];
+  if (typeof opts.initialHeap !== "undefined") {
+    args.push(`-H${formatSize(opts.initialHeap)}`);
+  }
+  if (typeof opts.maxHeap !== "undefined") {
+    args.push(`-M${formatSize(opts.maxHeap)}`);
+  }
+  if (typeof opts.stackSize !== "undefined") {
+    args.push(`-K${formatSize(opts.stackSize)}`);
+  }
+
+  if (args.length < 1) {
+    return [];
+  }
+  return ["+RTS", ...args, "-RTS"];
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("rtsArgs", () => {
+    assert.deepEqual(rtsArgs(defaultRtsOpts), ["+RTS", "-H64m", "-RTS"]);
+    assert.deepEqual(rtsArgs({ maxHeap: "1g", stackSize: 8 * 1024 * 1024 }), [
+      "+RTS",
+      "-M1g",
+      "-K8388608",
+      "-RTS",
+    ]);
+    assert.deepEqual(rtsArgs({}), []);
+    assert.throws(() => rtsArgs({ maxHeap: -1 }));
+  });
+}
@@ -0,0 +1,125 @@
+export type TraceEntry = {
+  name: string;
+  args: Record<string, number | bigint | string>;
+  /** The returned errno; absent when the syscall threw. */
+  errno?: number | undefined;
+  error?: unknown;
+  /** Milliseconds, including time spent suspended. */
+  duration: number;
+};
+
+export type Trace = (entry: TraceEntry) => void;
+
+// https://github.com/WebAssembly/WASI/blob/main/legacy/preview1/docs.md
+const params: Record<string, string[]> = {
+  args_get: ["argv", "argv_buf"],
+  args_sizes_get: ["argc", "argv_buf_size"],
+  environ_get: ["environ", "environ_buf"],
+  environ_sizes_get: ["environc", "environ_buf_size"],
+  clock_time_get: ["id", "precision", "time"],
+  fd_close: ["fd"],
+  fd_fdstat_get: ["fd", "stat"],
+  fd_fdstat_set_flags: ["fd", "flags"],
+  fd_filestat_get: ["fd", "buf"],
+  fd_filestat_set_size: ["fd", "size"],
+  fd_prestat_get: ["fd", "buf"],
+  fd_prestat_dir_name: ["fd", "path", "path_len"],
+  fd_read: ["fd", "iovs", "iovs_len", "nread"],
+  fd_readdir: ["fd", "buf", "buf_len", "cookie", "bufused"],
+  fd_seek: ["fd", "offset", "whence", "newoffset"],
+  fd_write: ["fd", "iovs", "iovs_len", "nwritten"],
+  path_create_directory: ["fd", "path", "path_len"],
+  path_filestat_get: ["fd", "flags", "path", "path_len", "buf"],
+  path_filestat_set_times: [
+    "fd",
+    "flags",
+    "path",
+    "path_len",
+    "atim",
+    "mtim",
+    "fst_flags",
+  ],
+  path_open: [
+    "fd",
+    "dirflags",
+    "path",
+    "path_len",
+    "oflags",
+    "fs_rights_base",
+    "fs_rights_inheriting",
+    "fdflags",
+    "opened_fd",
+  ],
+  path_readlink: ["fd", "path", "path_len", "buf", "buf_len", "bufused"],
+  path_remove_directory: ["fd", "path", "path_len"],
+  path_symlink: ["old_path", "old_path_len", "fd", "new_path", "new_path_len"],
+  path_unlink_file: ["fd", "path", "path_len"],
+  poll_oneoff: ["in", "out", "nsubscriptions", "nevents"],
+  proc_exit: ["rval"],
+  random_get: ["buf", "buf_len"],
+  sock_recv: [
+    "fd",
+    "ri_data",
+    "ri_data_len",
+    "ri_flags",
+    "ro_datalen",
+    "ro_flags",
+  ],
+  sock_send: ["fd", "si_data", "si_data_len", "si_flags", "so_datalen"],
+};
+
+/** Names arguments after the WASI spec and reads input paths from memory. */
+export function decodeArgs(
+  name: string,
+  args: unknown[],
+  memory: WebAssembly.Memory | undefined,
+): TraceEntry["args"] {
+  const names = params[name] ?? [];
+  const decoded: TraceEntry["args"] = {};
+  for (const [i, arg] of args.entries()) {
+    decoded[names[i] ?? `${i}`] = typeof arg === "bigint" ? arg : Number(arg);
+  }
+
+  // Only path_* syscalls take paths as input.
+  if (!name.startsWith("path_") || typeof memory === "undefined") {
+    return decoded;
+  }
+  for (const key of ["path", "old_path", "new_path"]) {
+    const ptr = decoded[key];
+    const len = decoded[`${key}_len`];
+    if (typeof ptr !== "number" || typeof len !== "number") {
+      continue;
+    }
+
+    decoded[key] = new TextDecoder().decode(
+      new Uint8Array(memory.buffer, ptr, len),
+    );
+    delete decoded[`${key}_len`];
+  }
+  return decoded;
+}
+
+if (import.meta.vitest) {
+  const { it, assert } = import.meta.vitest;
+
+  it("decodeArgs", () => {
+    const memory = new WebAssembly.Memory({ initial: 1 });
+    new TextEncoder().encodeInto("in.md", new Uint8Array(memory.buffer, 16));
+
+    assert.deepEqual(
+      decodeArgs("path_open", [3, 1, 16, 5, 0, 0n, 0n, 0, 64], memory),
+      {
+        fd: 3,
+        dirflags: 1,
+        path: "in.md",
+        oflags: 0,
+        fs_rights_base: 0n,
+        fs_rights_inheriting: 0n,
+        fdflags: 0,
+        opened_fd: 64,
+      },
+    );
+    assert.deepEqual(decodeArgs("fd_close", [3], memory), { fd: 3 });
+    assert.deepEqual(decodeArgs("unknown", [1], memory), { "0": 1 });
+  });
+}
@@ -1,3 +1,11 @@
+import type { Node } from "./fs";
+import { OutOfMemoryError } from "./error";
+import { Directory, File, splitPath } from "./fs";
+import type { RandomSource } from "./random";
+import { cryptoRandom } from "./random";
+import type { Trace } from "./trace";
+import { decodeArgs } from "./trace";
+
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace WebAssembly {
@@ -14,8 +22,46 @@ declare global {
 const CLOCKID_REALTIME = 0;
 const CLOCKID_MONOTONIC = 1;
 
+const EVENTTYPE_CLOCK = 0;
+const EVENTTYPE_FD_READ = 1;
+const EVENTTYPE_FD_WRITE = 2;
+
+const EVENTRWFLAGS_FD_READWRITE_HANGUP = 1 << 0;
+
+const SUBCLOCKFLAGS_SUBSCRIPTION_CLOCK_ABSTIME = 1 << 0;
+
 const ERRNO_SUCCESS = 0;
 const ERRNO_BADF = 8;
+const ERRNO_EXIST = 20;
+const ERRNO_INVAL = 28;
+const ERRNO_ISDIR = 31;
+const ERRNO_NOENT = 44;
+const ERRNO_NOTDIR = 54;
+const ERRNO_NOTEMPTY = 55;
+const ERRNO_SPIPE = 70;
+const ERRNO_NOTCAPABLE = 76;
+
+const FILETYPE_CHARACTER_DEVICE = 2;
+const FILETYPE_DIRECTORY = 3;
+const FILETYPE_REGULAR_FILE = 4;
+
+const OFLAGS_CREAT = 1 << 0;
+const OFLAGS_DIRECTORY = 1 << 1;
+const OFLAGS_EXCL = 1 << 2;
+const OFLAGS_TRUNC = 1 << 3;
+
+const FDFLAGS_APPEND = 1 << 0;
+
+const FSTFLAGS_MTIM = 1 << 2;
+const FSTFLAGS_MTIM_NOW = 1 << 3;
+
+const WHENCE_SET = 0;
+const WHENCE_CUR = 1;
+const WHENCE_END = 2;
+
+const PREOPENTYPE_DIR = 0;
+
+const RIGHTS_ALL = (1n << 29n) - 1n;
 
 class Exit extends Error {
   #code: number;
@@ -35,12 +81,185 @@ export type WasiOpts = {
   stdin?: ReadableStream<Uint8Array>;
   stdout?: WritableStream<Uint8Array>;
   stderr?: WritableStream<Uint8Array>;
+  /** Directories made visible to the module, keyed by their guest path. */
+  preopens?: Record<string, Directory> | undefined;
+  /** Checked on every syscall; the run rejects with its reason once aborted. */
+  signal?: AbortSignal | undefined;
+  /**
+   * Upper bound in bytes for the instance memory. The module exports its own
+   * memory, so no maximum can be set on it; this is only checked on syscalls,
+   * and the memory may grow past it in between. A run that exceeds it fails
+   * at its next syscall, at the latest on exit. Bound the heap with the GHC
+   * runtime with `RtsOpts.maxHeap` to stop the growth itself.
+   */
+  maxMemory?: number | undefined;
+  env?: Record<string, string> | undefined;
+  /** Backs `random_get`; defaults to `crypto.getRandomValues()`. */
+  random?: RandomSource | undefined;
+  /** Called after every syscall with its decoded arguments and result. */
+  trace?: Trace | undefined;
+  /**
+   * `performance.now()` past which syscalls throw a `TimeoutError`, for runs
+   * that block the event loop and so never see timers fire.
+   */
+  deadline?: number | undefined;
+  /**
+   * Defaults to `hasJspi()`. Without JSPI, stdin is buffered before the run
+   * and stdout/stderr are flushed after it.
+   */
+  jspi?: boolean | undefined;
 };
 
+export function hasJspi(): boolean {
+  return (
+    typeof WebAssembly.Suspending === "function" &&
+    typeof WebAssembly.promising === "function"
+  );
+}
+
 export type Start = (instance: WebAssembly.Instance) => Promise<number>;
 
 type MemoryRef = { ref?: WebAssembly.Memory | undefined };
 
+type Syscall = (...args: never[]) => unknown;
+
+/**
+ * Reads up to 8 KiB with a BYOB reader, or a whole chunk from streams that
+ * are not byte streams, such as ones transferred to a worker.
+ */
+async function readChunk(
+  stream: ReadableStream<Uint8Array>,
+  signal: AbortSignal | undefined,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let reader;
+  try {
+    reader = stream.getReader({ mode: "byob" });
+  } catch (e) {
+    if (!(e instanceof TypeError)) {
+      throw e;
+    }
+    reader = stream.getReader();
+  }
+  const cancel = () => reader.cancel(signal?.reason);
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    return reader instanceof ReadableStreamBYOBReader
+      ? await reader.read(new Uint8Array(8 * 1024))
+      : await reader.read();
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    reader.releaseLock();
+  }
+}
+
+/** Syscalls that may await a stream and so are imported via JSPI. */
+const SUSPENDING = new Set(["fd_close", "fd_read", "fd_write", "poll_oneoff"]);
+
+type Subscription =
+  | { userdata: bigint; type: typeof EVENTTYPE_CLOCK; deadline: number }
+  | {
+      userdata: bigint;
+      type: typeof EVENTTYPE_FD_READ | typeof EVENTTYPE_FD_WRITE;
+      fd: number;
+    };
+
+type Event = {
+  userdata: bigint;
+  error: number;
+  type: number;
+  nbytes?: number | undefined;
+  hangup?: boolean | undefined;
+};
+
+function clockTime(id: number): bigint | undefined {
+  switch (id) {
+    case CLOCKID_REALTIME:
+      return BigInt(Date.now()) * 1_000_000n;
+
+    case CLOCKID_MONOTONIC:
+      return BigInt(Math.round(performance.now() * 1_000_000));
+
+    default:
+      return undefined;
+  }
+}
+
+type Descriptor =
+  | { type: "file"; file: File; offset: number; append: boolean }
+  | { type: "directory"; directory: Directory; preopen?: string | undefined };
+
+function filetype(node: Node): number {
+  return node instanceof Directory ? FILETYPE_DIRECTORY : FILETYPE_REGULAR_FILE;
+}
+
+function lookup(base: Directory, path: string): Node | number {
+  const stack: Node[] = [base];
+  for (const component of splitPath(path)) {
+    if (component === "..") {
+      if (stack.length < 2) {
+        return ERRNO_NOTCAPABLE;
+      }
+      stack.pop();
+      continue;
+    }
+
+    const dir = stack[stack.length - 1];
+    if (!(dir instanceof Directory)) {
+      return ERRNO_NOTDIR;
+    }
+
+    const node = dir.get(component);
+    if (typeof node === "undefined") {
+      return ERRNO_NOENT;
+    }
+    stack.push(node);
+  }
+
+  return stack[stack.length - 1] ?? base;
+}
+
+function lookupParent(
+  base: Directory,
+  path: string,
+): [parent: Directory, name: string] | number {
+  const components = splitPath(path);
+  const name = components.pop();
+  if (typeof name === "undefined" || name === "..") {
+    return ERRNO_INVAL;
+  }
+
+  const parent = lookup(base, components.join("/"));
+  if (typeof parent === "number") {
+    return parent;
+  }
+  if (!(parent instanceof Directory)) {
+    return ERRNO_NOTDIR;
+  }
+  return [parent, name];
+}
+
+function writeFilestat(
+  view: DataView,
+  ptr: number,
+  node: Node | undefined,
+): void {
+  view.setBigUint64(ptr + 0, 0n, true); // dev
+  view.setBigUint64(ptr + 8, node?.ino ?? 0n, true);
+  view.setUint8(
+    ptr + 16,
+    typeof node === "undefined" ? FILETYPE_CHARACTER_DEVICE : filetype(node),
+  );
+  view.setBigUint64(ptr + 24, 1n, true); // nlink
+  view.setBigUint64(
+    ptr + 32,
+    BigInt(node instanceof File ? node.size : 0),
+    true,
+  );
+  view.setBigUint64(ptr + 40, node?.mtime ?? 0n, true); // atim
+  view.setBigUint64(ptr + 48, node?.mtime ?? 0n, true); // mtim
+  view.setBigUint64(ptr + 56, node?.mtime ?? 0n, true); // ctim
+}
+
 export function wasi(
   opts: WasiOpts,
 ): [imports: WebAssembly.Imports, start: Start] {
@@ -56,203 +275,1083 @@ export function wasi(
     return memoryRef.ref;
   };
 
-  const imports = {
-    wasi_snapshot_preview1: {
-      environ_sizes_get: (): number => {
-        return ERRNO_SUCCESS;
-      },
+  const jspi = opts.jspi ?? hasJspi();
 
-      args_sizes_get: (argcp: number, arglenp: number): number => {
-        const argc = opts.args.length;
-        const args = new TextEncoder().encode(
-          opts.args.map((v) => `${v}\0`).join(""),
-        );
+  const fds = new Map<number, Descriptor>();
+  for (const [preopen, directory] of Object.entries(opts.preopens ?? {})) {
+    fds.set(fds.size + 3, { type: "directory", directory, preopen });
+  }
+  const allocateFd = (desc: Descriptor): number => {
+    let fd = 3;
+    while (fds.has(fd)) {
+      fd++;
+    }
+    fds.set(fd, desc);
+    return fd;
+  };
+
+  const environ = Object.entries(opts.env ?? {}).map(
+    ([key, value]) => `${key}=${value}`,
+  );
+
+  const readString = (ptr: number, len: number): string =>
+    new TextDecoder().decode(new Uint8Array(memory().buffer, ptr, len));
+
+  // Data read from stdin ahead of fd_read, e.g. to answer poll_oneoff.
+  let stdinPending: Uint8Array | undefined;
+  let stdinDone = false;
+
+  const readAhead = async (
+    stdin: ReadableStream<Uint8Array>,
+  ): Promise<void> => {
+    const { done, value } = await readChunk(stdin, opts.signal);
+    if (typeof value !== "undefined" && value.length > 0) {
+      stdinPending = value;
+    }
+    stdinDone = done;
+  };
+
+  let stdinFill: Promise<void> | undefined;
+  const fillStdin = (stdin: ReadableStream<Uint8Array>): Promise<void> =>
+    (stdinFill ??= readAhead(stdin).finally(() => {
+      stdinFill = undefined;
+    }));
+
+  // Wakes up early on abort; the caller is expected to check the signal.
+  const sleep = (ms: number): Promise<void> =>
+    new Promise((resolve) => {
+      const abort = () => {
+        clearTimeout(id);
+        resolve();
+      };
+      const id = setTimeout(
+        () => {
+          opts.signal?.removeEventListener("abort", abort);
+          resolve();
+        },
+        Math.max(ms, 0),
+      );
+      opts.signal?.addEventListener("abort", abort, { once: true });
+    });
+
+  const bufferStdin = async (
+    stdin: ReadableStream<Uint8Array>,
+  ): Promise<void> => {
+    opts.signal?.throwIfAborted();
+    const reader = stdin.getReader();
+    const cancel = () => reader.cancel(opts.signal?.reason);
+    opts.signal?.addEventListener("abort", cancel, { once: true });
+
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (typeof value !== "undefined") {
+          chunks.push(new Uint8Array(value));
+        }
+        if (done) {
+          break;
+        }
+      }
+    } finally {
+      opts.signal?.removeEventListener("abort", cancel);
+      reader.releaseLock();
+    }
+    opts.signal?.throwIfAborted();
+
+    const data = new Uint8Array(await new Blob(chunks).arrayBuffer());
+    stdinPending = data.length > 0 ? data : undefined;
+    stdinDone = true;
+  };
+
+  const readStdin = async (
+    iovp: number,
+    iovlen: number,
+    nreadp: number,
+  ): Promise<number> => {
+    if (typeof opts.stdin === "undefined") {
+      return ERRNO_BADF;
+    }
+    if (typeof stdinPending === "undefined" && !stdinDone) {
+      await fillStdin(opts.stdin);
+    }
+
+    return copyStdin(iovp, iovlen, nreadp);
+  };
+
+  const copyStdin = (iovp: number, iovlen: number, nreadp: number): number => {
+    const view = new DataView(memory().buffer);
+    let nread = 0;
+
+    for (let i = 0; i < iovlen && typeof stdinPending !== "undefined"; i++) {
+      const off = view.getUint32(iovp + i * 8 + 0, true);
+      const len = view.getUint32(iovp + i * 8 + 4, true);
+
+      const chunk = stdinPending.subarray(0, len);
+      new Uint8Array(view.buffer).set(chunk, off);
+      nread += chunk.length;
+      stdinPending =
+        chunk.length < stdinPending.length
+          ? stdinPending.subarray(chunk.length)
+          : undefined;
+    }
+    view.setUint32(nreadp, nread, true);
+
+    return ERRNO_SUCCESS;
+  };
+
+  const readFile = (
+    desc: Descriptor & { type: "file" },
+    iovp: number,
+    iovlen: number,
+    nreadp: number,
+  ): number => {
+    const view = new DataView(memory().buffer);
+    let nread = 0;
+
+    for (let i = 0; i < iovlen; i++) {
+      const off = view.getUint32(iovp + i * 8 + 0, true);
+      const len = view.getUint32(iovp + i * 8 + 4, true);
+
+      const chunk = desc.file.read(desc.offset, len);
+      new Uint8Array(view.buffer).set(chunk, off);
+      desc.offset += chunk.length;
+      nread += chunk.length;
+
+      if (chunk.length < len) {
+        break;
+      }
+    }
+    view.setUint32(nreadp, nread, true);
+
+    return ERRNO_SUCCESS;
+  };
+
+  // Output written while the event loop is blocked, without JSPI.
+  const buffered: [WritableStream<Uint8Array>, Uint8Array<ArrayBuffer>][] = [];
+
+  const bufferStdio = (
+    stream: WritableStream<Uint8Array>,
+    iovp: number,
+    iovlen: number,
+    nwrittenp: number,
+  ): number => {
+    const view = new DataView(memory().buffer);
+    let nwritten = 0;
 
+    for (let i = 0; i < iovlen; i++) {
+      const off = view.getUint32(iovp + i * 8 + 0, true);
+      const len = view.getUint32(iovp + i * 8 + 4, true);
+      buffered.push([stream, new Uint8Array(view.buffer, off, len).slice()]);
+      nwritten += len;
+    }
+    view.setUint32(nwrittenp, nwritten, true);
+
+    return ERRNO_SUCCESS;
+  };
+
+  const flushStdio = async (): Promise<void> => {
+    for (const [stream, chunk] of buffered.splice(0)) {
+      const writer = stream.getWriter();
+      try {
+        await writer.write(chunk);
+      } finally {
+        writer.releaseLock();
+      }
+    }
+  };
+
+  const writeStdio = async (
+    stream: WritableStream<Uint8Array>,
+    iovp: number,
+    iovlen: number,
+    nwrittenp: number,
+  ): Promise<number> => {
+    const writer = stream.getWriter();
+    using stack = new DisposableStack();
+    stack.defer(() => writer.releaseLock());
+    const abort = () => writer.abort(opts.signal?.reason);
+    opts.signal?.addEventListener("abort", abort, { once: true });
+    stack.defer(() => opts.signal?.removeEventListener("abort", abort));
+
+    const view = new DataView(memory().buffer);
+    let nwritten = 0;
+
+    for (let i = 0; i < iovlen; i++) {
+      const off = view.getUint32(iovp + i * 8 + 0, true);
+      const len = view.getUint32(iovp + i * 8 + 4, true);
+      const chunk = new Uint8Array(view.buffer, off, len);
+      await writer.write(chunk);
+      nwritten += chunk.length;
+    }
+    view.setUint32(nwrittenp, nwritten, true);
+
+    return ERRNO_SUCCESS;
+  };
+
+  const writeFile = (
+    desc: Descriptor & { type: "file" },
+    iovp: number,
+    iovlen: number,
+    nwrittenp: number,
+  ): number => {
+    const view = new DataView(memory().buffer);
+    let nwritten = 0;
+
+    if (desc.append) {
+      desc.offset = desc.file.size;
+    }
+    for (let i = 0; i < iovlen; i++) {
+      const off = view.getUint32(iovp + i * 8 + 0, true);
+      const len = view.getUint32(iovp + i * 8 + 4, true);
+      desc.file.write(desc.offset, new Uint8Array(view.buffer, off, len));
+      desc.offset += len;
+      nwritten += len;
+    }
+    view.setUint32(nwrittenp, nwritten, true);
+
+    return ERRNO_SUCCESS;
+  };
+
+  const syscalls = {
+    environ_sizes_get: (countp: number, sizep: number): number => {
+      const count = environ.length;
+      const size = new TextEncoder().encode(
+        environ.map((v) => `${v}\0`).join(""),
+      );
+
+      const view = new DataView(memory().buffer);
+      view.setUint32(countp, count, true);
+      view.setUint32(sizep, size.length, true);
+      return ERRNO_SUCCESS;
+    },
+
+    environ_get: (environp: number, environbufp: number): number => {
+      const view = new DataView(memory().buffer);
+      const buf = new Uint8Array(view.buffer);
+      const encoder = new TextEncoder();
+
+      for (const v of environ) {
+        view.setUint32(environp, environbufp, true);
+        environp += Uint32Array.BYTES_PER_ELEMENT;
+
+        const data = encoder.encode(`${v}\0`);
+        buf.set(data, environbufp);
+        environbufp += data.length;
+      }
+
+      return ERRNO_SUCCESS;
+    },
+
+    args_sizes_get: (argcp: number, arglenp: number): number => {
+      const argc = opts.args.length;
+      const args = new TextEncoder().encode(
+        opts.args.map((v) => `${v}\0`).join(""),
+      );
+
+      const view = new DataView(memory().buffer);
+      view.setUint32(argcp, argc, true);
+      view.setUint32(arglenp, args.length, true);
+      return ERRNO_SUCCESS;
+    },
+
+    args_get: (argvp: number, argbp: number): number => {
+      const view = new DataView(memory().buffer);
+      const buf = new Uint8Array(view.buffer);
+      const encoder = new TextEncoder();
+
+      for (const arg of opts.args) {
+        view.setUint32(argvp, argbp, true);
+        argvp += Uint32Array.BYTES_PER_ELEMENT;
+
+        const data = encoder.encode(`${arg}\0`);
+        buf.set(data, argbp);
+        argbp += data.length;
+      }
+
+      return ERRNO_SUCCESS;
+    },
+
+    clock_time_get: (id: number, _: bigint, offset: number): number => {
+      const time = clockTime(id);
+      if (typeof time === "undefined") {
+        throw new Error(`Not implemented: ${id}`);
+      }
+
+      const view = new DataView(memory().buffer);
+      view.setBigUint64(offset, time, true);
+      return ERRNO_SUCCESS;
+    },
+
+    random_get: (bufp: number, buflen: number): number => {
+      (opts.random ?? cryptoRandom)(
+        new Uint8Array(memory().buffer, bufp, buflen),
+      );
+      return ERRNO_SUCCESS;
+    },
+
+    poll_oneoff: (
+      inp: number,
+      outp: number,
+      nsubscriptions: number,
+      neventsp: number,
+    ): number | Promise<number> => {
+      if (nsubscriptions < 1) {
+        return ERRNO_INVAL;
+      }
+
+      const subscriptions: Subscription[] = [];
+      const invalid: Event[] = [];
+      {
         const view = new DataView(memory().buffer);
-        view.setUint32(argcp, argc, true);
-        view.setUint32(arglenp, args.length, true);
-        return ERRNO_SUCCESS;
-      },
+        for (let i = 0; i < nsubscriptions; i++) {
+          const ptr = inp + i * 48;
+          const userdata = view.getBigUint64(ptr + 0, true);
+          const type = view.getUint8(ptr + 8);
 
-      args_get: (argvp: number, argbp: number): number => {
+          switch (type) {
+            case EVENTTYPE_CLOCK: {
+              const id = view.getUint32(ptr + 16, true);
+              const timeout = view.getBigUint64(ptr + 24, true);
+              const flags = view.getUint16(ptr + 40, true);
+
+              const now = clockTime(id);
+              if (typeof now === "undefined") {
+                invalid.push({ userdata, error: ERRNO_INVAL, type });
+                break;
+              }
+              const remaining =
+                (flags & SUBCLOCKFLAGS_SUBSCRIPTION_CLOCK_ABSTIME) !== 0
+                  ? timeout - now
+                  : timeout;
+              subscriptions.push({
+                userdata,
+                type,
+                deadline: performance.now() + Number(remaining) / 1_000_000,
+              });
+              break;
+            }
+
+            case EVENTTYPE_FD_READ:
+            case EVENTTYPE_FD_WRITE:
+              subscriptions.push({
+                userdata,
+                type,
+                fd: view.getUint32(ptr + 16, true),
+              });
+              break;
+
+            default:
+              invalid.push({ userdata, error: ERRNO_INVAL, type });
+          }
+        }
+      }
+
+      const poll = (): Event[] => {
+        const events = [...invalid];
+        for (const sub of subscriptions) {
+          const { userdata, type } = sub;
+          if (type === EVENTTYPE_CLOCK) {
+            if (performance.now() >= sub.deadline) {
+              events.push({ userdata, error: ERRNO_SUCCESS, type });
+            }
+            continue;
+          }
+
+          if (sub.fd >= 0 && sub.fd <= 2) {
+            const stream = [opts.stdin, opts.stdout, opts.stderr][sub.fd];
+            if (
+              typeof stream === "undefined" ||
+              (sub.fd === 0) !== (type === EVENTTYPE_FD_READ)
+            ) {
+              events.push({ userdata, error: ERRNO_BADF, type });
+            } else if (sub.fd !== 0) {
+              events.push({ userdata, error: ERRNO_SUCCESS, type });
+            } else if (typeof stdinPending !== "undefined" || stdinDone) {
+              events.push({
+                userdata,
+                error: ERRNO_SUCCESS,
+                type,
+                nbytes: stdinPending?.length ?? 0,
+                hangup: stdinDone,
+              });
+            }
+            continue;
+          }
+
+          const desc = fds.get(sub.fd);
+          if (desc?.type !== "file") {
+            events.push({ userdata, error: ERRNO_BADF, type });
+            continue;
+          }
+          // Regular files are always ready.
+          events.push({
+            userdata,
+            error: ERRNO_SUCCESS,
+            type,
+            nbytes:
+              type === EVENTTYPE_FD_READ
+                ? Math.max(desc.file.size - desc.offset, 0)
+                : 0,
+          });
+        }
+        return events;
+      };
+
+      const emit = (events: Event[]): number => {
         const view = new DataView(memory().buffer);
-        const buf = new Uint8Array(view.buffer);
-        const encoder = new TextEncoder();
+        for (const [i, event] of events.entries()) {
+          const ptr = outp + i * 32;
+          view.setBigUint64(ptr + 0, event.userdata, true);
+          view.setUint16(ptr + 8, event.error, true);
+          view.setUint8(ptr + 10, event.type);
+          view.setBigUint64(ptr + 16, BigInt(event.nbytes ?? 0), true);
+          view.setUint16(
+            ptr + 24,
+            event.hangup ? EVENTRWFLAGS_FD_READWRITE_HANGUP : 0,
+            true,
+          );
+        }
+        view.setUint32(neventsp, events.length, true);
+        return ERRNO_SUCCESS;
+      };
 
-        for (const arg of opts.args) {
-          view.setUint32(argvp, argbp, true);
-          argvp += Uint32Array.BYTES_PER_ELEMENT;
+      const events = poll();
+      if (events.length > 0) {
+        return emit(events);
+      }
+      if (!jspi) {
+        // Cannot sleep without blocking: let the nearest clock fire early.
+        // Only stdin can be pending otherwise, and it is buffered before the
+        // run, so report it as ready rather than a spurious wakeup.
+        const deadlines = subscriptions.flatMap((sub) =>
+          sub.type === EVENTTYPE_CLOCK ? [sub.deadline] : [],
+        );
+        if (deadlines.length === 0) {
+          stdinDone = true;
+          return emit(
+            subscriptions.map(({ userdata, type }) => ({
+              userdata,
+              error: ERRNO_SUCCESS,
+              type,
+              nbytes: stdinPending?.length ?? 0,
+              hangup: true,
+            })),
+          );
+        }
+        const deadline = Math.min(...deadlines);
+        return emit(
+          subscriptions.flatMap((sub) =>
+            sub.type === EVENTTYPE_CLOCK && sub.deadline <= deadline
+              ? [
+                  {
+                    userdata: sub.userdata,
+                    error: ERRNO_SUCCESS,
+                    type: sub.type,
+                  },
+                ]
+              : [],
+          ),
+        );
+      }
+
+      const wait = (): Promise<void> => {
+        const waits: Promise<void>[] = [];
+        const deadlines = subscriptions.flatMap((sub) =>
+          sub.type === EVENTTYPE_CLOCK ? [sub.deadline] : [],
+        );
+        if (deadlines.length > 0) {
+          waits.push(sleep(Math.min(...deadlines) - performance.now()));
+        }
+        // Among the fd subscriptions, only stdin can be pending.
+        if (
+          typeof opts.stdin !== "undefined" &&
+          subscriptions.some((sub) => sub.type !== EVENTTYPE_CLOCK)
+        ) {
+          waits.push(fillStdin(opts.stdin));
+        }
+        return Promise.race(waits);
+      };
 
-          const data = encoder.encode(`${arg}\0`);
-          buf.set(data, argbp);
-          argbp += data.length;
+      return (async () => {
+        for (;;) {
+          await wait();
+          opts.signal?.throwIfAborted();
+
+          const events = poll();
+          if (events.length > 0) {
+            return emit(events);
+          }
         }
+      })();
+    },
 
+    fd_prestat_get: (fd: number, bufp: number): number => {
+      const desc = fds.get(fd);
+      if (desc?.type !== "directory" || typeof desc.preopen === "undefined") {
+        return ERRNO_BADF;
+      }
+
+      const view = new DataView(memory().buffer);
+      view.setUint8(bufp + 0, PREOPENTYPE_DIR);
+      view.setUint32(
+        bufp + 4,
+        new TextEncoder().encode(desc.preopen).length,
+        true,
+      );
+      return ERRNO_SUCCESS;
+    },
+
+    fd_prestat_dir_name: (
+      fd: number,
+      pathp: number,
+      pathlen: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (desc?.type !== "directory" || typeof desc.preopen === "undefined") {
+        return ERRNO_BADF;
+      }
+
+      const name = new TextEncoder().encode(desc.preopen);
+      new Uint8Array(memory().buffer).set(name.subarray(0, pathlen), pathp);
+      return ERRNO_SUCCESS;
+    },
+
+    fd_fdstat_get: (fd: number, bufp: number): number => {
+      let type: number;
+      if (fd >= 0 && fd <= 2) {
+        type = FILETYPE_CHARACTER_DEVICE;
+      } else {
+        const desc = fds.get(fd);
+        if (typeof desc === "undefined") {
+          return ERRNO_BADF;
+        }
+        type =
+          desc.type === "file" ? FILETYPE_REGULAR_FILE : FILETYPE_DIRECTORY;
+      }
+
+      const view = new DataView(memory().buffer);
+      view.setUint8(bufp + 0, type);
+      view.setUint16(bufp + 2, 0, true); // flags
+      view.setBigUint64(bufp + 8, RIGHTS_ALL, true);
+      view.setBigUint64(bufp + 16, RIGHTS_ALL, true);
+      return ERRNO_SUCCESS;
+    },
+
+    fd_fdstat_set_flags: (fd: number, flags: number): number => {
+      if (fd >= 0 && fd <= 2) {
+        // NOP
         return ERRNO_SUCCESS;
-      },
+      }
+
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type === "file") {
+        desc.append = (flags & FDFLAGS_APPEND) !== 0;
+      }
+      return ERRNO_SUCCESS;
+    },
+
+    fd_filestat_get: (fd: number, bufp: number): number => {
+      let node: Node | undefined;
+      if (fd < 0 || fd > 2) {
+        const desc = fds.get(fd);
+        if (typeof desc === "undefined") {
+          return ERRNO_BADF;
+        }
+        node = desc.type === "file" ? desc.file : desc.directory;
+      }
+
+      writeFilestat(new DataView(memory().buffer), bufp, node);
+      return ERRNO_SUCCESS;
+    },
+
+    fd_seek: (
+      fd: number,
+      offset: bigint,
+      whence: number,
+      newoffsetp: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return fd >= 0 && fd <= 2 ? ERRNO_SPIPE : ERRNO_BADF;
+      }
+      if (desc.type !== "file") {
+        return ERRNO_BADF;
+      }
+
+      let base: number;
+      switch (whence) {
+        case WHENCE_SET:
+          base = 0;
+          break;
+        case WHENCE_CUR:
+          base = desc.offset;
+          break;
+        case WHENCE_END:
+          base = desc.file.size;
+          break;
+        default:
+          return ERRNO_INVAL;
+      }
 
-      clock_time_get: (id: number, _: bigint, offset: number): number => {
-        switch (id) {
-          case CLOCKID_REALTIME: {
-            const view = new DataView(memory().buffer);
-            view.setBigUint64(offset, BigInt(Date.now() * 1_000_000), true);
+      const next = base + Number(offset);
+      if (next < 0) {
+        return ERRNO_INVAL;
+      }
+      desc.offset = next;
+
+      const view = new DataView(memory().buffer);
+      view.setBigUint64(newoffsetp, BigInt(next), true);
+      return ERRNO_SUCCESS;
+    },
+
+    fd_readdir: (
+      fd: number,
+      bufp: number,
+      buflen: number,
+      cookie: bigint,
+      bufusedp: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
+
+      const entries: [string, Node][] = [
+        [".", desc.directory],
+        ["..", desc.directory],
+        ...desc.directory.entries(),
+      ];
+      const buf = new Uint8Array(memory().buffer);
+      let used = 0;
+
+      for (let i = Number(cookie); i < entries.length && used < buflen; i++) {
+        const [name, node] = entries[i] ?? [];
+        if (typeof name === "undefined" || typeof node === "undefined") {
+          break;
+        }
+
+        const namebuf = new TextEncoder().encode(name);
+        const dirent = new Uint8Array(24 + namebuf.length);
+        const view = new DataView(dirent.buffer);
+        view.setBigUint64(0, BigInt(i + 1), true); // d_next
+        view.setBigUint64(8, node.ino, true);
+        view.setUint32(16, namebuf.length, true);
+        view.setUint8(20, filetype(node));
+        dirent.set(namebuf, 24);
+
+        // Truncated entries tell the caller to retry with a larger buffer.
+        const chunk = dirent.subarray(0, buflen - used);
+        buf.set(chunk, bufp + used);
+        used += chunk.length;
+      }
+
+      new DataView(memory().buffer).setUint32(bufusedp, used, true);
+      return ERRNO_SUCCESS;
+    },
+
+    path_filestat_get: (
+      fd: number,
+      _: number,
+      pathp: number,
+      pathlen: number,
+      bufp: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
+
+      const node = lookup(desc.directory, readString(pathp, pathlen));
+      if (typeof node === "number") {
+        return node;
+      }
+
+      writeFilestat(new DataView(memory().buffer), bufp, node);
+      return ERRNO_SUCCESS;
+    },
+
+    path_open: (
+      fd: number,
+      _dirflags: number,
+      pathp: number,
+      pathlen: number,
+      oflags: number,
+      _rightsBase: bigint,
+      _rightsInheriting: bigint,
+      fdflags: number,
+      fdp: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
+
+      const path = readString(pathp, pathlen);
+      let node = lookup(desc.directory, path);
+      if (node === ERRNO_NOENT && (oflags & OFLAGS_CREAT) !== 0) {
+        const parent = lookupParent(desc.directory, path);
+        if (typeof parent === "number") {
+          return parent;
+        }
+
+        const [dir, name] = parent;
+        node = new File();
+        dir.set(name, node);
+      } else if (typeof node === "number") {
+        return node;
+      } else if (
+        (oflags & OFLAGS_CREAT) !== 0 &&
+        (oflags & OFLAGS_EXCL) !== 0
+      ) {
+        return ERRNO_EXIST;
+      }
+
+      let opened: Descriptor;
+      if (node instanceof Directory) {
+        opened = { type: "directory", directory: node };
+      } else {
+        if ((oflags & OFLAGS_DIRECTORY) !== 0) {
+          return ERRNO_NOTDIR;
+        }
+        if ((oflags & OFLAGS_TRUNC) !== 0) {
+          node.truncate(0);
+        }
+        opened = {
+          type: "file",
+          file: node,
+          offset: 0,
+          append: (fdflags & FDFLAGS_APPEND) !== 0,
+        };
+      }
+
+      const view = new DataView(memory().buffer);
+      view.setUint32(fdp, allocateFd(opened), true);
+      return ERRNO_SUCCESS;
+    },
+
+    path_readlink: (fd: number, pathp: number, pathlen: number): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
+
+      const node = lookup(desc.directory, readString(pathp, pathlen));
+      if (typeof node === "number") {
+        return node;
+      }
+      // There are no symbolic links.
+      return ERRNO_INVAL;
+    },
+
+    fd_read: (
+      fd: number,
+      iovp: number,
+      iovlen: number,
+      nreadp: number,
+    ): number | Promise<number> => {
+      if (fd === 0) {
+        if (!jspi) {
+          return typeof opts.stdin === "undefined"
+            ? ERRNO_BADF
+            : copyStdin(iovp, iovlen, nreadp);
+        }
+        return readStdin(iovp, iovlen, nreadp);
+      }
+
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "file") {
+        return ERRNO_BADF;
+      }
+
+      return readFile(desc, iovp, iovlen, nreadp);
+    },
+
+    fd_close: (fd: number): number | Promise<number> => {
+      switch (fd) {
+        case 0:
+          if (!jspi) {
+            // Already consumed by bufferStdin().
             return ERRNO_SUCCESS;
           }
+          return (async () => {
+            await opts.stdin?.cancel();
+            // TODO
+            return ERRNO_SUCCESS;
+          })();
 
-          case CLOCKID_MONOTONIC: {
-            const now = performance.now();
-            const s = now | 0;
-            const ms = ((now - s) * 1_000) | 0;
-            const v = BigInt(s) * 1_000_000_000n + BigInt(ms) * 1_000_000n;
+        default:
+          return fds.delete(fd) ? ERRNO_SUCCESS : ERRNO_BADF;
+      }
+    },
 
-            const view = new DataView(memory().buffer);
-            view.setBigUint64(offset, v, true);
+    fd_write: (
+      fd: number,
+      iovp: number,
+      iovlen: number,
+      nwrittenp: number,
+    ): number | Promise<number> => {
+      switch (fd) {
+        case 1:
+          if (typeof opts.stdout === "undefined") {
+            // NOP
             return ERRNO_SUCCESS;
           }
 
-          default:
-            throw new Error(`Not implemented: ${id}`);
-        }
-      },
+          return jspi
+            ? writeStdio(opts.stdout, iovp, iovlen, nwrittenp)
+            : bufferStdio(opts.stdout, iovp, iovlen, nwrittenp);
 
-      fd_prestat_get: (): number => {
-        return ERRNO_BADF;
-      },
-
-      fd_read: new WebAssembly.Suspending(
-        async (
-          fd: number,
-          iovp: number,
-          iovlen: number,
-          nreadp: number,
-        ): Promise<number> => {
-          if (fd !== 0) {
-            return ERRNO_BADF;
+        case 2:
+          if (typeof opts.stderr === "undefined") {
+            // NOP
+            return ERRNO_SUCCESS;
           }
 
-          if (typeof opts.stdin === "undefined") {
-            return ERRNO_BADF;
-          }
-          const reader = opts.stdin.getReader({ mode: "byob" });
-          using stack = new DisposableStack();
-          stack.defer(() => reader.releaseLock());
-          let buf = new Uint8Array(8 * 1024);
+          return jspi
+            ? writeStdio(opts.stderr, iovp, iovlen, nwrittenp)
+            : bufferStdio(opts.stderr, iovp, iovlen, nwrittenp);
+      }
 
-          const view = new DataView(memory().buffer);
-          let nread = 0;
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "file") {
+        return ERRNO_BADF;
+      }
 
-          for (let i = 0; i < iovlen; i++) {
-            const off = view.getUint32(iovp + i * 8 + 0, true);
-            const len = view.getUint32(iovp + i * 8 + 4, true);
+      return writeFile(desc, iovp, iovlen, nwrittenp);
+    },
 
-            if (len > buf.length) {
-              buf = new Uint8Array(buf.length);
-            }
-            const { done, value } = await reader.read(buf);
-            if (typeof value !== "undefined") {
-              new Uint8Array(view.buffer).set(value, off);
-              nread += value.length;
-              buf = new Uint8Array(value.buffer);
-            }
+    fd_filestat_set_size: (fd: number, size: bigint): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "file") {
+        return ERRNO_ISDIR;
+      }
 
-            if (done) {
-              break;
-            }
-          }
-          view.setUint32(nreadp, nread, true);
+      desc.file.truncate(Number(size));
+      return ERRNO_SUCCESS;
+    },
 
-          return ERRNO_SUCCESS;
-        },
-      ),
+    path_create_directory: (
+      fd: number,
+      pathp: number,
+      pathlen: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
 
-      fd_close: new WebAssembly.Suspending(
-        async (fd: number): Promise<number> => {
-          switch (fd) {
-            case 0:
-              await opts.stdin?.cancel();
-              // TODO
-              return ERRNO_SUCCESS;
+      const parent = lookupParent(desc.directory, readString(pathp, pathlen));
+      if (typeof parent === "number") {
+        return parent;
+      }
 
-            default:
-              return ERRNO_BADF;
-          }
-        },
-      ),
-
-      fd_write: new WebAssembly.Suspending(
-        async (
-          fd: number,
-          iovp: number,
-          iovlen: number,
-          nwrittenp: number,
-        ): Promise<number> => {
-          let writer: WritableStreamDefaultWriter;
-          switch (fd) {
-            case 1:
-              if (typeof opts.stdout === "undefined") {
-                // NOP
-                return ERRNO_SUCCESS;
-              }
+      const [dir, name] = parent;
+      if (typeof dir.get(name) !== "undefined") {
+        return ERRNO_EXIST;
+      }
+      dir.set(name, new Directory());
+      return ERRNO_SUCCESS;
+    },
 
-              writer = opts.stdout.getWriter();
-              break;
+    path_remove_directory: (
+      fd: number,
+      pathp: number,
+      pathlen: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
 
-            case 2:
-              if (typeof opts.stderr === "undefined") {
-                // NOP
-                return ERRNO_SUCCESS;
-              }
+      const parent = lookupParent(desc.directory, readString(pathp, pathlen));
+      if (typeof parent === "number") {
+        return parent;
+      }
 
-              writer = opts.stderr.getWriter();
-              break;
+      const [dir, name] = parent;
+      const node = dir.get(name);
+      if (typeof node === "undefined") {
+        return ERRNO_NOENT;
+      }
+      if (!(node instanceof Directory)) {
+        return ERRNO_NOTDIR;
+      }
+      if (node.entries().length > 0) {
+        return ERRNO_NOTEMPTY;
+      }
+      dir.delete(name);
+      return ERRNO_SUCCESS;
+    },
 
-            default:
-              return ERRNO_BADF;
-          }
-          using stack = new DisposableStack();
-          stack.defer(() => writer.releaseLock());
-
-          const view = new DataView(memory().buffer);
-          let nwritten = 0;
-
-          for (let i = 0; i < iovlen; i++) {
-            const off = view.getUint32(iovp + i * 8 + 0, true);
-            const len = view.getUint32(iovp + i * 8 + 4, true);
-            const chunk = new Uint8Array(view.buffer, off, len);
-            await writer.write(chunk);
-            nwritten += chunk.length;
-          }
-          view.setUint32(nwrittenp, nwritten, true);
+    path_unlink_file: (fd: number, pathp: number, pathlen: number): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
 
-          return ERRNO_SUCCESS;
-        },
-      ),
-
-      proc_exit: (code: number): never => {
-        throw new Exit(code);
-      },
-
-      environ_get: todo("environ_get"),
-      fd_fdstat_get: todo("fd_fdstat_get"),
-      fd_fdstat_set_flags: todo("fd_fdstat_set_flags"),
-      fd_filestat_get: todo("fd_filestat_get"),
-      fd_filestat_set_size: todo("fd_filestat_set_size"),
-      fd_prestat_dir_name: todo("fd_prestat_dir_name"),
-      fd_readdir: todo("fd_readdir"),
-      fd_seek: todo("fd_seek"),
-      path_create_directory: todo("path_create_directory"),
-      path_filestat_get: todo("path_filestat_get"),
-      path_filestat_set_times: todo("path_filestat_set_times"),
-      path_open: todo("path_open"),
-      path_readlink: todo("path_readlink"),
-      path_remove_directory: todo("path_remove_directory"),
-      path_symlink: todo("path_symlink"),
-      path_unlink_file: todo("path_unlink_file"),
-      poll_oneoff: todo("poll_oneoff"),
-      random_get: todo("random_get"),
-      sock_recv: todo("sock_recv"),
-      sock_send: todo("sock_send"),
+      const parent = lookupParent(desc.directory, readString(pathp, pathlen));
+      if (typeof parent === "number") {
+        return parent;
+      }
+
+      const [dir, name] = parent;
+      const node = dir.get(name);
+      if (typeof node === "undefined") {
+        return ERRNO_NOENT;
+      }
+      if (node instanceof Directory) {
+        return ERRNO_ISDIR;
+      }
+      dir.delete(name);
+      return ERRNO_SUCCESS;
+    },
+
+    path_filestat_set_times: (
+      fd: number,
+      _: number,
+      pathp: number,
+      pathlen: number,
+      _atim: bigint,
+      mtim: bigint,
+      fstflags: number,
+    ): number => {
+      const desc = fds.get(fd);
+      if (typeof desc === "undefined") {
+        return ERRNO_BADF;
+      }
+      if (desc.type !== "directory") {
+        return ERRNO_NOTDIR;
+      }
+
+      const node = lookup(desc.directory, readString(pathp, pathlen));
+      if (typeof node === "number") {
+        return node;
+      }
+
+      // Access times are not tracked.
+      if ((fstflags & FSTFLAGS_MTIM_NOW) !== 0) {
+        node.mtime = BigInt(Date.now()) * 1_000_000n;
+      } else if ((fstflags & FSTFLAGS_MTIM) !== 0) {
+        node.mtime = mtim;
+      }
+      return ERRNO_SUCCESS;
     },
+
+    proc_exit: (code: number): never => {
+      throw new Exit(code);
+    },
+
+    path_symlink: todo("path_symlink"),
+    sock_recv: todo("sock_recv"),
+    sock_send: todo("sock_send"),
+  } satisfies Record<string, Syscall>;
+
+  const guard =
+    (fn: Syscall): Syscall =>
+    (...args) => {
+      opts.signal?.throwIfAborted();
+      if (
+        typeof opts.deadline !== "undefined" &&
+        performance.now() > opts.deadline
+      ) {
+        throw new DOMException("The operation timed out.", "TimeoutError");
+      }
+      if (
+        typeof opts.maxMemory !== "undefined" &&
+        memory().buffer.byteLength > opts.maxMemory
+      ) {
+        throw new OutOfMemoryError(opts.maxMemory);
+      }
+      return fn(...args);
+    };
+
+  const traced = (name: string, fn: Syscall): Syscall => {
+    const trace = opts.trace;
+    if (typeof trace === "undefined") {
+      return fn;
+    }
+
+    return (...args) => {
+      const decoded = decodeArgs(name, args, memoryRef.ref);
+      const begin = performance.now();
+      const report = (result: { errno: number } | { error: unknown }) =>
+        trace({
+          name,
+          args: decoded,
+          ...result,
+          duration: performance.now() - begin,
+        });
+
+      let result: unknown;
+      try {
+        result = fn(...args);
+      } catch (error) {
+        report({ error });
+        throw error;
+      }
+      if (!(result instanceof Promise)) {
+        report({ errno: Number(result) });
+        return result;
+      }
+      return result.then(
+        (errno) => {
+          report({ errno: Number(errno) });
+          return errno;
+        },
+        (error) => {
+          report({ error });
+          throw error;
+        },
+      );
+    };
+  };
+
+  const imports = {
+    wasi_snapshot_preview1: Object.fromEntries(
+      Object.entries(syscalls).map(([name, fn]) => {
+        const wrapped = traced(name, guard(fn));
+        return [
+          name,
+          jspi && SUSPENDING.has(name)
+            ? new WebAssembly.Suspending(wrapped)
+            : wrapped,
+        ];
+      }),
+    ),
   };
 
   async function start(instance: WebAssembly.Instance): Promise<number> {
@@ -267,13 +1366,18 @@ export function wasi(
       throw new Error();
     }
 
+    if (!jspi && typeof opts.stdin !== "undefined") {
+      await bufferStdin(opts.stdin);
+    }
+
     try {
-      await WebAssembly.promising(_start)();
+      await (jspi ? WebAssembly.promising(_start) : _start)();
     } catch (e) {
       if (!(e instanceof Exit)) {
         throw e;
       }
 
+      await flushStdio();
       return e.code;
     }
 
@@ -282,3 +1386,198 @@ export function wasi(
 
   return [imports, start];
 }
+
+if (import.meta.vitest) {
+  const { mkfs } = await import("./fs");
+
+  const { describe, it, assert } = import.meta.vitest;
+
+  const name = (v: string) => [v.length, ...new TextEncoder().encode(v)];
+
+  // (module
+  //   (import "wasi_snapshot_preview1" "proc_exit" (func $exit (param i32)))
+  //   (memory (export "memory") 1)
+  //   (func (export "_start")
+  //     (drop (memory.grow (i32.const <pages>)))
+  //     (call $exit (i32.const 0))))
+  const exitModule = (pages: number): Uint8Array<ArrayBuffer> =>
+    new Uint8Array([
+      ...[0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+      ...[0x01, 0x08, 0x02, 0x60, 0x01, 0x7f, 0x00, 0x60, 0x00, 0x00],
+      ...[0x02, 0x24, 0x01, ...name("wasi_snapshot_preview1")],
+      ...[...name("proc_exit"), 0x00, 0x00],
+      ...[0x03, 0x02, 0x01, 0x01],
+      ...[0x05, 0x03, 0x01, 0x00, 0x01],
+      ...[0x07, 0x13, 0x02, ...name("memory"), 0x02, 0x00],
+      ...[...name("_start"), 0x00, 0x01],
+      ...[0x0a, 0x0d, 0x01, 0x0b, 0x00, 0x41, pages, 0x40, 0x00, 0x1a],
+      ...[0x41, 0x00, 0x10, 0x00, 0x0b],
+    ]);
+
+  /** Runs `exitModule(pages)`; its syscalls can be called afterwards. */
+  const run = async (opts: Partial<WasiOpts>, pages = 0) => {
+    const [imports, start] = wasi({ args: [], jspi: false, ...opts });
+    const instance = await WebAssembly.instantiate(
+      await WebAssembly.compile(exitModule(pages)),
+      imports,
+    );
+    const exitCode = await start(instance);
+    const memory = instance.exports["memory"] as WebAssembly.Memory;
+    const syscalls = imports["wasi_snapshot_preview1"] as Record<
+      string,
+      (...args: (number | bigint)[]) => unknown
+    >;
+    return { exitCode, memory, syscalls };
+  };
+
+  describe("poll_oneoff", () => {
+    const IN = 1024;
+    const OUT = 2048;
+    const NEVENTS = 4096;
+
+    type Sub =
+      | { userdata: bigint; clock: number; timeout: bigint }
+      | { userdata: bigint; fd: number; type: number };
+
+    /** Writes `subs`, polls and reads back `[userdata, error, type]`. */
+    const poll = (
+      { memory, syscalls }: Awaited<ReturnType<typeof run>>,
+      subs: Sub[],
+    ): [bigint, number, number][] => {
+      const view = new DataView(memory.buffer);
+      for (const [i, sub] of subs.entries()) {
+        const ptr = IN + i * 48;
+        view.setBigUint64(ptr + 0, sub.userdata, true);
+        if ("clock" in sub) {
+          view.setUint8(ptr + 8, EVENTTYPE_CLOCK);
+          view.setUint32(ptr + 16, sub.clock, true);
+          view.setBigUint64(ptr + 24, sub.timeout, true);
+          view.setUint16(ptr + 40, 0, true);
+        } else {
+          view.setUint8(ptr + 8, sub.type);
+          view.setUint32(ptr + 16, sub.fd, true);
+        }
+      }
+
+      const errno = syscalls["poll_oneoff"]?.(IN, OUT, subs.length, NEVENTS);
+      assert.equal(errno, ERRNO_SUCCESS);
+      return Array.from({ length: view.getUint32(NEVENTS, true) }, (_, i) => [
+        view.getBigUint64(OUT + i * 32 + 0, true),
+        view.getUint16(OUT + i * 32 + 8, true),
+        view.getUint8(OUT + i * 32 + 10),
+      ]);
+    };
+
+    it("times out clocks", async () => {
+      const instance = await run({});
+      assert.deepEqual(
+        poll(instance, [
+          { userdata: 1n, clock: CLOCKID_MONOTONIC, timeout: 1_000_000n },
+        ]),
+        [[1n, ERRNO_SUCCESS, EVENTTYPE_CLOCK]],
+      );
+    });
+
+    it("rejects invalid clock ids", async () => {
+      const instance = await run({});
+      assert.deepEqual(
+        poll(instance, [{ userdata: 2n, clock: 99, timeout: 0n }]),
+        [[2n, ERRNO_INVAL, EVENTTYPE_CLOCK]],
+      );
+    });
+
+    it("reports regular files as ready", async () => {
+      const instance = await run({
+        preopens: { "/": mkfs({ "a.md": new TextEncoder().encode("# A") }) },
+      });
+      const view = new DataView(instance.memory.buffer);
+      const path = new TextEncoder().encode("a.md");
+      new Uint8Array(instance.memory.buffer).set(path, 0);
+      const open = instance.syscalls["path_open"];
+      assert.equal(open?.(3, 0, 0, path.length, 0, 0n, 0n, 0, 512), 0);
+      const fd = view.getUint32(512, true);
+
+      assert.deepEqual(
+        poll(instance, [{ userdata: 3n, fd, type: EVENTTYPE_FD_READ }]),
+        [[3n, ERRNO_SUCCESS, EVENTTYPE_FD_READ]],
+      );
+      assert.equal(view.getBigUint64(OUT + 16, true), 3n); // nbytes
+    });
+
+    it("rejects bad fds", async () => {
+      const instance = await run({});
+      assert.deepEqual(
+        poll(instance, [
+          { userdata: 4n, fd: 42, type: EVENTTYPE_FD_READ },
+          { userdata: 5n, fd: 0, type: EVENTTYPE_FD_READ },
+        ]),
+        [
+          [4n, ERRNO_BADF, EVENTTYPE_FD_READ],
+          [5n, ERRNO_BADF, EVENTTYPE_FD_READ],
+        ],
+      );
+    });
+
+    it("reports buffered stdin as ready", async () => {
+      const instance = await run({ stdin: new Blob(["# A"]).stream() });
+      assert.deepEqual(
+        poll(instance, [{ userdata: 6n, fd: 0, type: EVENTTYPE_FD_READ }]),
+        [[6n, ERRNO_SUCCESS, EVENTTYPE_FD_READ]],
+      );
+      const view = new DataView(instance.memory.buffer);
+      assert.equal(view.getBigUint64(OUT + 16, true), 3n); // nbytes
+      assert.equal(
+        view.getUint16(OUT + 24, true),
+        EVENTRWFLAGS_FD_READWRITE_HANGUP,
+      );
+    });
+  });
+
+  describe("maxMemory", () => {
+    it("fails once the memory grows past it", async () => {
+      // 1 page of 64 KiB at first.
+      assert.equal((await run({ maxMemory: 128 * 1024 })).exitCode, 0);
+
+      try {
+        await run({ maxMemory: 128 * 1024 }, 2);
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof OutOfMemoryError)) {
+          throw e;
+        }
+        assert.equal(e.limit, 128 * 1024);
+      }
+    });
+  });
+
+  describe("readChunk", () => {
+    it("reads streams sent over a MessageChannel", async () => {
+      const { port1, port2 } = new MessageChannel();
+      const received = new Promise<ReadableStream<Uint8Array>>((resolve) => {
+        port2.addEventListener("message", (event) => resolve(event.data), {
+          once: true,
+        });
+        port2.start();
+      });
+      const stdin = new Blob(["# Hello"]).stream();
+      port1.postMessage(stdin, [stdin]);
+
+      const stream = await received;
+      port1.close();
+      port2.close();
+
+      const { done, value } = await readChunk(stream, undefined);
+      assert.equal(done, false);
+      assert.equal(new TextDecoder().decode(value), "# Hello");
+      assert.equal((await readChunk(stream, undefined)).done, true);
+    });
+
+    it("reads byte streams", async () => {
+      const { value } = await readChunk(
+        new Blob(["# Hello"]).stream(),
+        undefined,
+      );
+      assert.equal(new TextDecoder().decode(value), "# Hello");
+    });
+  });
+}
@@ -0,0 +1,62 @@
+import type { Pandoc } from "./index";
+import { newPandoc } from "./index";
+import type { Request, Response, WorkerPandocOpts } from "./protocol";
+import { serializeError } from "./protocol";
+
+let pandoc: Promise<Pandoc> | undefined;
+const aborts = new Map<number, AbortController>();
+
+function post(message: Response, transfer: Transferable[] = []): void {
+  globalThis.postMessage(message, { transfer });
+}
+
+async function run(
+  id: number,
+  opts: WorkerPandocOpts,
+  trace: boolean,
+): Promise<void> {
+  const abort = new AbortController();
+  aborts.set(id, abort);
+
+  try {
+    if (typeof pandoc === "undefined") {
+      throw new Error("Not initialized.");
+    }
+
+    const fn = await pandoc;
+    const result = await fn({
+      ...opts,
+      signal: abort.signal,
+      trace: trace ? (entry) => post({ type: "trace", id, entry }) : undefined,
+    });
+    post(
+      { type: "result", id, result },
+      result.files.map(({ data }) => data.buffer),
+    );
+  } catch (e) {
+    post({ type: "error", id, error: serializeError(e) });
+  } finally {
+    aborts.delete(id);
+  }
+}
+
+globalThis.addEventListener("message", (event: MessageEvent<Request>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "init":
+      pandoc = newPandoc(request.opts);
+      pandoc.then(
+        () => post({ type: "ready" }),
+        (e) => post({ type: "init-error", error: serializeError(e) }),
+      );
+      break;
+
+    case "run":
+      run(request.id, request.opts, request.trace);
+      break;
+
+    case "abort":
+      aborts.get(request.id)?.abort(request.reason);
+      break;
+  }
+});
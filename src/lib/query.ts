@@ -24,18 +24,153 @@ declare global {
   }
 }
 
+/** A document to fetch, or one carried in the link itself. */
+export type Source =
+  | {
+      url: string;
+      /** Hex-encoded SHA-256 of the content when the link was created. */
+      sha256?: string | undefined;
+    }
+  | { content: string };
+
+export type ViewerOptions = {
+  /** Replaces the title taken from the source. */
+  title?: string | undefined;
+  /** `false` hides the diagnostics panel. */
+  diagnostics?: boolean | undefined;
+};
+
 export type Query = {
-  url: string;
+  /** Concatenated in order, as pandoc does with several input files. */
+  sources: Source[];
   args: string[];
+  /** URLs of Lua filters, applied in order. */
+  luaFilters?: string[] | undefined;
+  /**
+   * Bibliographies for `--citeproc`, as URLs (relative to the first source)
+   * or names of files in the same gist.
+   */
+  bibliography?: string[] | undefined;
+  /** A CSL style, referenced like `bibliography`. */
+  csl?: string | undefined;
+  /** A `--template`, referenced like `bibliography`. */
+  template?: string | undefined;
+  /** A `--reference-doc` for binary writers, referenced like `bibliography`. */
+  referenceDoc?: string | undefined;
+  /** Passed as `-M`, after `args`. */
+  metadata?: Record<string, string | true> | undefined;
+  viewer?: ViewerOptions | undefined;
 };
 
+const zSource = z.union([
+  z.strictObject({
+    url: z.string(),
+    sha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/)
+      .optional(),
+  }),
+  z.strictObject({ content: z.string() }),
+]);
+
+const zViewerOptions = z.object({
+  title: z.string().optional(),
+  diagnostics: z.boolean().optional(),
+});
+
 const zQuery = z.object({
+  sources: zSource.array().min(1),
+  args: z.string().array(),
+  luaFilters: z.string().array().optional(),
+  bibliography: z.string().array().optional(),
+  csl: z.string().optional(),
+  template: z.string().optional(),
+  referenceDoc: z.string().optional(),
+  metadata: z
+    .record(z.string(), z.union([z.string(), z.literal(true)]))
+    .optional(),
+  viewer: zViewerOptions.optional(),
+});
+
+// v1 links carry a single `url`; attachments were added as optional fields.
+const zQueryV1 = z.object({
   url: z.string(),
   args: z.string().array(),
+  luaFilters: z.string().array().optional(),
+  bibliography: z.string().array().optional(),
+  csl: z.string().optional(),
+  template: z.string().optional(),
+  referenceDoc: z.string().optional(),
 });
 
-async function encodeV1(query: Query): Promise<string> {
-  const json = JSON.stringify(query);
+function migrateV1({ url, ...rest }: z.infer<typeof zQueryV1>): Query {
+  return { sources: [{ url }], ...rest };
+}
+
+/**
+ * Longest link `encode()` produces. Longer URLs get truncated or rejected by
+ * browsers, chat apps and mail clients.
+ */
+export const MAX_ENCODED_LENGTH = 32_000;
+
+export class QueryTooLongError extends Error {
+  #length: number;
+
+  constructor(length: number) {
+    super(
+      `The link would be ${length} characters long, more than ${MAX_ENCODED_LENGTH}. Host the document at a URL instead.`,
+    );
+    this.name = "QueryTooLongError";
+    this.#length = length;
+  }
+
+  get length(): number {
+    return this.#length;
+  }
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super("This link is protected by a passphrase.");
+    this.name = "PassphraseRequiredError";
+  }
+}
+
+export class DecryptionError extends Error {
+  constructor(options?: ErrorOptions) {
+    super(
+      "Could not decrypt the link; the key or passphrase is wrong.",
+      options,
+    );
+    this.name = "DecryptionError";
+  }
+}
+
+export type EncodeOpts = {
+  /**
+   * `true` encrypts with a random key carried in the link; a passphrase
+   * derives the key instead, and is needed to open the link.
+   */
+  encrypt?: true | { passphrase: string } | undefined;
+};
+
+export type DecodeOpts = {
+  passphrase?: string | undefined;
+};
+
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const PBKDF2_ITERATIONS = 600_000;
+
+function toBase64(data: Uint8Array): string {
+  return data.toBase64({ alphabet: "base64url", omitPadding: true });
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.fromBase64(text, { alphabet: "base64url" });
+}
+
+async function compress(json: string): Promise<Uint8Array<ArrayBuffer>> {
   const source = new Blob([json]).stream();
   const deflate = source.pipeThrough(new CompressionStream("deflate"));
 
@@ -48,37 +183,136 @@ async function encodeV1(query: Query): Promise<string> {
     }),
   );
 
-  const b64 = new Uint8Array(await new Blob(data).arrayBuffer()).toBase64({
-    alphabet: "base64url",
-    omitPadding: true,
-  });
-  return b64;
-}
-
-export async function encode(query: Query): Promise<string> {
-  return `v1:${await encodeV1(query)}`;
+  return new Uint8Array(await new Blob(data).arrayBuffer());
 }
 
-async function decodeV1(text: string): Promise<Query> {
-  const b64 = Uint8Array.fromBase64(text, { alphabet: "base64url" });
-  const source = new Blob([b64]).stream();
+async function decompress(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const source = new Blob([data]).stream();
   const deflate = source.pipeThrough(new DecompressionStream("deflate"));
 
-  const data: Uint8Array<ArrayBuffer>[] = [];
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
   await deflate.pipeTo(
     new WritableStream({
       write: (chunk) => {
-        data.push(chunk);
+        chunks.push(chunk);
       },
     }),
   );
 
-  const json = await new Blob(data).text();
-  const query = JSON.parse(json);
-  return zQuery.parse(query);
+  return await new Blob(chunks).text();
+}
+
+async function deflate(json: string): Promise<string> {
+  return toBase64(await compress(json));
+}
+
+async function inflate(text: string): Promise<string> {
+  return await decompress(fromBase64(text));
 }
 
-export async function decode(text: string): Promise<Query> {
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function encrypt(
+  key: CryptoKey,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    data,
+  );
+  const result = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+  result.set(iv);
+  result.set(new Uint8Array(encrypted), IV_LENGTH);
+  return result;
+}
+
+async function decrypt(
+  key: CryptoKey,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: data.slice(0, IV_LENGTH) },
+      key,
+      data.slice(IV_LENGTH),
+    );
+    return new Uint8Array(decrypted);
+  } catch (e) {
+    throw new DecryptionError({ cause: e });
+  }
+}
+
+/**
+ * `v2k:<iv + ciphertext>.<key>` or `v2p:<salt + iv + ciphertext>`, each
+ * encrypting what `v2:` carries.
+ */
+async function encodeEncrypted(
+  data: Uint8Array<ArrayBuffer>,
+  opts: NonNullable<EncodeOpts["encrypt"]>,
+): Promise<string> {
+  if (opts === true) {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"],
+    );
+    const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+    return `v2k:${toBase64(await encrypt(key, data))}.${toBase64(raw)}`;
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const encrypted = await encrypt(await deriveKey(opts.passphrase, salt), data);
+  const result = new Uint8Array(SALT_LENGTH + encrypted.byteLength);
+  result.set(salt);
+  result.set(encrypted, SALT_LENGTH);
+  return `v2p:${toBase64(result)}`;
+}
+
+/** Throws `QueryTooLongError` past `MAX_ENCODED_LENGTH`. */
+export async function encode(
+  query: Query,
+  opts: EncodeOpts = {},
+): Promise<string> {
+  const json = JSON.stringify(zQuery.parse(query));
+  const encoded =
+    typeof opts.encrypt !== "undefined"
+      ? await encodeEncrypted(await compress(json), opts.encrypt)
+      : `v2:${await deflate(json)}`;
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new QueryTooLongError(encoded.length);
+  }
+  return encoded;
+}
+
+/**
+ * Throws `PassphraseRequiredError` for `v2p:` links without
+ * `opts.passphrase`, and `DecryptionError` when the key or passphrase does
+ * not match.
+ */
+export async function decode(
+  text: string,
+  opts: DecodeOpts = {},
+): Promise<Query> {
   const [v, data] = text.split(":", 2);
   if (typeof v !== "string" || typeof data !== "string") {
     throw new Error("Unexpected format.");
@@ -86,7 +320,34 @@ export async function decode(text: string): Promise<Query> {
 
   switch (v) {
     case "v1":
-      return await decodeV1(data);
+      return migrateV1(zQueryV1.parse(JSON.parse(await inflate(data))));
+
+    case "v2":
+      return zQuery.parse(JSON.parse(await inflate(data)));
+
+    case "v2k": {
+      const [encrypted, raw] = data.split(".", 2);
+      if (typeof encrypted !== "string" || typeof raw !== "string") {
+        throw new Error("Unexpected format.");
+      }
+      const key = await crypto.subtle
+        .importKey("raw", fromBase64(raw), "AES-GCM", false, ["decrypt"])
+        .catch((e: unknown) => {
+          throw new DecryptionError({ cause: e });
+        });
+      const decrypted = await decrypt(key, fromBase64(encrypted));
+      return zQuery.parse(JSON.parse(await decompress(decrypted)));
+    }
+
+    case "v2p": {
+      if (typeof opts.passphrase === "undefined") {
+        throw new PassphraseRequiredError();
+      }
+      const bytes = fromBase64(data);
+      const key = await deriveKey(opts.passphrase, bytes.slice(0, SALT_LENGTH));
+      const decrypted = await decrypt(key, bytes.slice(SALT_LENGTH));
+      return zQuery.parse(JSON.parse(await decompress(decrypted)));
+    }
 
     default:
       throw new Error(`Unexpected version: ${v}`);
@@ -99,7 +360,7 @@ if (import.meta.vitest) {
   describe("encode | decode", () => {
     it("success", async () => {
       const q: Query = {
-        url: "http://example.com/",
+        sources: [{ url: "http://example.com/" }],
         args: ["-fmarkdown", "-thtml"],
       };
       const encoded = await encode(q);
@@ -107,5 +368,198 @@ if (import.meta.vitest) {
 
       assert.deepEqual(q, q2);
     });
+
+    it("with attachments", async () => {
+      const q: Query = {
+        sources: [
+          { url: "http://example.com/" },
+          {
+            url: "http://example.com/appendix.md",
+            sha256:
+              "90f8ec5669cd34183b9b0fdf8b94f5efb4c3672876330f4aa76088c2b4ad17be",
+          },
+        ],
+        args: ["-fmarkdown", "-thtml"],
+        luaFilters: ["https://example.com/diagram.lua"],
+        bibliography: ["refs.bib", "https://example.com/refs.json"],
+        csl: "ieee.csl",
+        template: "https://example.com/shell.html",
+        referenceDoc: "styles.docx",
+        metadata: { lang: "en", "link-citations": true },
+        viewer: { title: "Notes", diagnostics: false },
+      };
+      assert.deepEqual(await decode(await encode(q)), q);
+    });
+
+    it("with inline content", async () => {
+      const q: Query = {
+        sources: [
+          { content: "# Notes\n\n- one\n- two\n" },
+          { url: "http://example.com/appendix.md" },
+        ],
+        args: ["-fmarkdown", "-thtml5"],
+      };
+      assert.deepEqual(await decode(await encode(q)), q);
+    });
+
+    it("limits the length", async () => {
+      // Random text hardly compresses.
+      const bytes = crypto.getRandomValues(new Uint8Array(MAX_ENCODED_LENGTH));
+      const content = Array.from(bytes, (b) => b.toString(16)).join("");
+      try {
+        await encode({ sources: [{ content }], args: [] });
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof QueryTooLongError)) {
+          throw e;
+        }
+        assert.isAbove(e.length, MAX_ENCODED_LENGTH);
+      }
+    });
+
+    it("rejects queries without sources", async () => {
+      try {
+        await encode({ sources: [], args: [] });
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof z.ZodError)) {
+          throw e;
+        }
+      }
+    });
+  });
+
+  describe("encryption", () => {
+    const q: Query = {
+      sources: [{ content: "# Draft\n" }],
+      args: ["-fmarkdown", "-thtml5"],
+    };
+
+    it("with a key in the link", async () => {
+      const encoded = await encode(q, { encrypt: true });
+      assert.match(encoded, /^v2k:[\w-]+\.[\w-]+$/);
+      assert.notInclude(encoded, await deflate(JSON.stringify(q)));
+      assert.deepEqual(await decode(encoded), q);
+
+      const [data] = encoded.split(".");
+      const other = (await encode(q, { encrypt: true })).split(".")[1];
+      try {
+        await decode(`${data}.${other}`);
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof DecryptionError)) {
+          throw e;
+        }
+      }
+    });
+
+    it("with a passphrase", async () => {
+      const encoded = await encode(q, {
+        encrypt: { passphrase: "correct horse" },
+      });
+      assert.match(encoded, /^v2p:[\w-]+$/);
+      assert.deepEqual(
+        await decode(encoded, { passphrase: "correct horse" }),
+        q,
+      );
+
+      try {
+        await decode(encoded);
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof PassphraseRequiredError)) {
+          throw e;
+        }
+      }
+      try {
+        await decode(encoded, { passphrase: "battery staple" });
+        assert.fail();
+      } catch (e) {
+        if (!(e instanceof DecryptionError)) {
+          throw e;
+        }
+      }
+    });
+  });
+
+  describe("wire format", () => {
+    it("v2", async () => {
+      const encoded = await encode({
+        sources: [{ url: "https://example.com/a.md" }],
+        args: ["-fmarkdown", "-thtml5"],
+        csl: undefined,
+        metadata: { lang: "en" },
+      });
+
+      assert.match(encoded, /^v2:[\w-]+$/);
+      assert.equal(
+        await inflate(encoded.slice("v2:".length)),
+        '{"sources":[{"url":"https://example.com/a.md"}],"args":["-fmarkdown","-thtml5"],"metadata":{"lang":"en"}}',
+      );
+
+      assert.deepEqual(
+        await decode(
+          "v2:eJx9jkEOwiAQRe_y17Ss3HAIL2BcjGVsGxloYGpNCHeXegC377-8_IqS9jxxgbtV7DnAYVHdirOWPyRb4HFKYmkUj2b-KY-fcjegPJ85DE-h_PLpiDAYdFEJF_RdWMmTElxFoDj3Hscex3vlg_OJddXAnV-T9mutfQGrAThf",
+        ),
+        {
+          sources: [
+            { url: "https://example.com/a.md" },
+            { url: "https://example.com/b.md" },
+          ],
+          args: ["-fmarkdown", "-thtml5"],
+          metadata: { lang: "en" },
+          viewer: { title: "Notes" },
+        },
+      );
+    });
+
+    it("migrates v1", async () => {
+      assert.deepEqual(
+        await decode(
+          "v1:eJwVyNEOQCAUANB_uc9ojSz9inm4imokq9s8mH_H29m5oaQdFDiiMyvGrM_UWE-uzI2OgUVNUSMxRIEtF6bnuAxdK2cuDVSAyWZQI9RrwLSZeB1f1uQo7OJXhul5AW8oH9Y",
+        ),
+        {
+          sources: [
+            { url: "https://gist.github.com/octocat/aa5a315d61ae9438b18d" },
+          ],
+          args: ["-fmarkdown", "-thtml5", "-s"],
+        },
+      );
+
+      assert.deepEqual(
+        await decode(
+          "v1:eJwVyzEOwyAMRuG7_HOAqQtXqTI4xAmouFiGqq2i3r3J9vRJ78DLKiLyGNpjCPwh0co-NQlKyuZlxQSyvSPe4TYhe6zt_TzRjTyk3q5yqQxWawnzhKUstbTdSPP3moy37k_E_PsDNP8ljA",
+        ),
+        {
+          sources: [{ url: "https://example.com/paper.md" }],
+          args: ["-fmarkdown", "-thtml5", "--citeproc"],
+          bibliography: ["refs.bib"],
+        },
+      );
+    });
+
+    it("v2p", async () => {
+      assert.deepEqual(
+        await decode(
+          "v2p:AQEBAQEBAQEBAQEBAQEBAQICAgICAgICAgICArkaP7gNOrMBwnbohW_N1AoMcHumpF0s9TBfJIa25Pon-5H90VDn31ojvKNAKHydj1iUKmCvyA2hjhDu5IFYoY8B9YiyP2p4eaR_1gWu5kfdgcHwoFX46d4WmOZAU-ro3J7zy0HDkFxglIYhQwwf3usCQ8tySwjhK4mazQ",
+          { passphrase: "correct horse" },
+        ),
+        {
+          sources: [
+            { url: "https://gist.github.com/octocat/aa5a315d61ae9438b18d" },
+          ],
+          args: ["-fmarkdown", "-thtml5"],
+        },
+      );
+    });
+
+    it("rejects unknown versions", async () => {
+      try {
+        await decode("v0:AAAA");
+        assert.fail();
+      } catch (e) {
+        assert.match(String(e), /Unexpected version: v0/);
+      }
+    });
   });
 }
@@ -0,0 +1,38 @@
+/** An in-memory `CacheStorage` for tests, keyed by plain strings. */
+
+export class MemoryCache {
+  entries = new Map<string, Response>();
+
+  async match(key: string): Promise<Response | undefined> {
+    return this.entries.get(key)?.clone();
+  }
+
+  async put(key: string, response: Response): Promise<void> {
+    this.entries.set(key, response);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+}
+
+export class MemoryCacheStorage {
+  caches = new Map<string, MemoryCache>();
+
+  async open(name: string): Promise<MemoryCache> {
+    let cache = this.caches.get(name);
+    if (typeof cache === "undefined") {
+      cache = new MemoryCache();
+      this.caches.set(name, cache);
+    }
+    return cache;
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.caches.keys()];
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.caches.delete(name);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Shared fixtures of the in-source tests; import them dynamically from the
+ * test blocks only.
+ */
+
+import * as fs from "node:fs/promises";
+
+import type { Pandoc } from "../lib/pandoc";
+import { newPandoc } from "../lib/pandoc";
+
+/** Reads the bundled pandoc.wasm from node_modules. */
+export async function fetchWasm(): Promise<Response> {
+  const href = new URL(import.meta.resolve("wasm-pandoc/pandoc.wasm"));
+  return new Response(await fs.readFile(href), {
+    headers: { "content-type": "application/wasm" },
+  });
+}
+
+let pandoc: Promise<Pandoc> | undefined;
+
+/** One pandoc for every test, compiled on first use. */
+export function testPandoc(): Promise<Pandoc> {
+  return (pandoc ??= newPandoc({ fetchWasm }));
+}
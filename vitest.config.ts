@@ -3,5 +3,7 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
   test: {
     includeSource: ["src/**/*.ts"],
+    // Lets the test files share one compiled pandoc; see src/test/pandoc.ts.
+    isolate: false,
   },
 });